@@ -7,26 +7,28 @@ import { useState } from "react";
 import Landing from "./pages/Landing";
 import Chat from "./pages/Chat";
 import NotFound from "./pages/NotFound";
-import { type BusinessSummary, type SalesData, type InventoryData, type ReviewData } from "@/lib/data-processing";
+import { prepareBusinessData, summarizeBusinessData, type BusinessData, type BusinessSummary } from "@/lib/data-processing";
+import { loadProductDecisions } from "@/lib/product-master";
+import { loadReorderSettings } from "@/lib/reorder";
 
 const queryClient = new QueryClient();
 
 const App = () => {
   const [businessSummary, setBusinessSummary] = useState<BusinessSummary | null>(null);
-  const [businessData, setBusinessData] = useState<{
-    sales: SalesData[];
-    inventory: InventoryData[];
-    reviews: ReviewData[];
-  } | null>(null);
+  const [businessData, setBusinessData] = useState<BusinessData | null>(null);
 
-  const handleDataComplete = (
-    summary: BusinessSummary, 
-    data: { sales: SalesData[]; inventory: InventoryData[]; reviews: ReviewData[] }
-  ) => {
+  const handleDataComplete = (summary: BusinessSummary, data: BusinessData) => {
     setBusinessSummary(summary);
     setBusinessData(data);
   };
 
+  // Edits made from the chat screen go through the same product linking as a fresh analysis
+  const handleDataChange = (data: BusinessData) => {
+    const prepared = prepareBusinessData(data, loadProductDecisions());
+    setBusinessSummary(summarizeBusinessData(prepared, loadReorderSettings()));
+    setBusinessData(prepared);
+  };
+
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
@@ -38,7 +40,7 @@ const App = () => {
               path="/" 
               element={
                 businessSummary && businessData ? 
-                  <Chat businessSummary={businessSummary} businessData={businessData} /> :
+                  <Chat businessSummary={businessSummary} businessData={businessData} onDataChange={handleDataChange} /> :
                   <Landing onDataComplete={handleDataComplete} />
               } 
             />
@@ -0,0 +1,146 @@
+import React, { useCallback, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { FolderOpen } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DATASET_LABELS, type DatasetType } from '@/lib/data-processing';
+import { type FileClassification } from '@/lib/dataset-classification';
+import { classifyFiles } from '@/lib/parse-worker-client';
+import { useToast } from '@/hooks/use-toast';
+
+export type FileAssignments = Partial<Record<DatasetType, File[]>>;
+
+interface BulkUploadZoneProps {
+  disabled?: boolean;
+  onAssign: (assignments: FileAssignments) => void;
+}
+
+// Radix Select cannot use an empty string as an item value
+const SKIP = '__skip__';
+
+const assign = (classifications: FileClassification[], choices: Record<number, DatasetType | null>): FileAssignments => {
+  const assignments: FileAssignments = {};
+  classifications.forEach((classification, index) => {
+    const type = classification.type ?? choices[index];
+    if (type) assignments[type] = [...(assignments[type] || []), classification.file];
+  });
+  return assignments;
+};
+
+const BulkUploadZone: React.FC<BulkUploadZoneProps> = ({ disabled, onAssign }) => {
+  const [isClassifying, setIsClassifying] = useState(false);
+  const [pending, setPending] = useState<FileClassification[] | null>(null);
+  const [choices, setChoices] = useState<Record<number, DatasetType | null>>({});
+  const { toast } = useToast();
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+    setIsClassifying(true);
+
+    try {
+      const classifications = await classifyFiles(acceptedFiles);
+      if (classifications.length === 0) {
+        toast({ title: "No readable files", description: "Add CSV, Excel, Tally XML or GSTR-1 JSON exports", variant: "destructive" });
+      } else if (classifications.every(classification => classification.type)) {
+        onAssign(assign(classifications, {}));
+      } else {
+        // Only the files that could be more than one dataset need the user's answer
+        setChoices(Object.fromEntries(classifications.map((classification, index) => [index, classification.suggested ?? null])));
+        setPending(classifications);
+      }
+    } catch (error) {
+      console.error('Error sorting files:', error);
+      toast({
+        title: "Could not read these files",
+        description: error instanceof Error && error.message ? error.message : "Please check the archive",
+        variant: "destructive",
+      });
+    } finally {
+      setIsClassifying(false);
+    }
+  }, [onAssign, toast]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    disabled: disabled || isClassifying,
+    accept: {
+      'application/zip': ['.zip'],
+      'application/x-zip-compressed': ['.zip'],
+      'text/csv': ['.csv'],
+      'text/tab-separated-values': ['.tsv', '.txt'],
+      'application/vnd.ms-excel': ['.xls'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+      'text/xml': ['.xml'],
+      'application/json': ['.json']
+    }
+  });
+
+  const handleConfirm = () => {
+    if (!pending) return;
+    onAssign(assign(pending, choices));
+    setPending(null);
+  };
+
+  const ambiguous = (pending || []).map((classification, index) => ({ classification, index })).filter(({ classification }) => !classification.type);
+
+  return (
+    <>
+      <Card className="p-6">
+        <div
+          {...getRootProps()}
+          className={`upload-zone cursor-pointer ${isDragActive ? 'dragover' : ''}`}
+        >
+          <input {...getInputProps()} />
+          <div className="flex flex-col items-center gap-2 text-center">
+            <FolderOpen className="w-10 h-10 text-muted-foreground" />
+            <p className="text-lg font-medium">{isClassifying ? 'Sorting your files...' : 'Drop a folder or ZIP with all your exports'}</p>
+            <p className="text-sm text-muted-foreground">We'll work out which files hold sales, inventory, reviews and returns</p>
+          </div>
+        </div>
+      </Card>
+
+      <Dialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Which data is in these files?</DialogTitle>
+            <DialogDescription>
+              {pending && pending.length > ambiguous.length
+                ? `${pending.length - ambiguous.length} files were sorted automatically. `
+                : ''}
+              We couldn't tell what the files below hold.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 max-h-[60vh] overflow-y-auto pr-1">
+            {ambiguous.map(({ classification, index }) => (
+              <div key={index} className="grid grid-cols-[1fr_12rem] items-center gap-3">
+                <span className="text-sm font-medium truncate">{classification.file.name}</span>
+                <Select
+                  value={choices[index] ?? SKIP}
+                  onValueChange={(value) => setChoices(prev => ({ ...prev, [index]: value === SKIP ? null : value as DatasetType }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {classification.candidates.map(type => (
+                      <SelectItem key={type} value={type}>{DATASET_LABELS[type]}</SelectItem>
+                    ))}
+                    <SelectItem value={SKIP}>Skip this file</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)}>Cancel</Button>
+            <Button onClick={handleConfirm}>Upload</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default BulkUploadZone;
@@ -1,12 +1,20 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Send, Bot, User, TrendingUp, BarChart3, Lightbulb, Download } from 'lucide-react';
+import { Send, Bot, User, TrendingUp, BarChart3, Lightbulb, Download, RotateCcw, Users, Truck } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import DataGridDialog from '@/components/DataGridDialog';
+import ReorderSettingsDialog from '@/components/ReorderSettingsDialog';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { queryGemini, type GeminiResponse } from '@/lib/gemini';
-import { type BusinessSummary, type SalesData, type InventoryData, type ReviewData } from '@/lib/data-processing';
+import { DATASET_LABELS, filterRows, getMissingDatasets, summarizeBusinessData, type BusinessData, type BusinessSummary, type DataFilter, type DatasetType } from '@/lib/data-processing';
+import { describeCustomColumns } from '@/lib/custom-columns';
+import { LOW_MARGIN } from '@/lib/margins';
+import { clearDataset, saveDataset } from '@/lib/dataset-store';
+import { CALENDAR_YEARS, analyzeFestival, resolveFestivalQuery } from '@/lib/festival-calendar';
+import { getSuppliers, loadReorderSettings, saveReorderSettings, type ReorderSettings } from '@/lib/reorder';
 import { useToast } from '@/hooks/use-toast';
 
 interface Message {
@@ -19,18 +27,107 @@ interface Message {
 
 interface ChatInterfaceProps {
   businessSummary: BusinessSummary;
-  businessData: {
-    sales: SalesData[];
-    inventory: InventoryData[];
-    reviews: ReviewData[];
-  };
+  businessData: BusinessData;
+  // Rows edited in the data grid; the parent relinks products and recomputes the summary
+  onDataChange: (data: BusinessData) => void;
+}
+
+const DATASET_BADGES: Array<{ type: DatasetType; icon: React.ReactNode; className: string }> = [
+  { type: 'sales', icon: <TrendingUp className="w-3 h-3 mr-1" />, className: 'bg-success/20 text-success' },
+  { type: 'inventory', icon: <BarChart3 className="w-3 h-3 mr-1" />, className: 'bg-primary/20 text-primary' },
+  { type: 'reviews', icon: <Lightbulb className="w-3 h-3 mr-1" />, className: 'bg-accent/20 text-accent' },
+  { type: 'returns', icon: <RotateCcw className="w-3 h-3 mr-1" />, className: 'bg-destructive/20 text-destructive' },
+  { type: 'customers', icon: <Users className="w-3 h-3 mr-1" />, className: 'bg-secondary/20 text-secondary' }
+];
+
+// Each suggestion needs one dataset to be answerable
+const SUGGESTIONS: Array<{ question: string; needs: DatasetType }> = [
+  { question: "Why are my sales declining this month?", needs: 'sales' },
+  { question: "Which products should I restock first?", needs: 'inventory' },
+  { question: "How can I improve customer satisfaction?", needs: 'reviews' },
+  { question: "Generate a marketing campaign idea", needs: 'sales' },
+  { question: "Analyze my competitor positioning", needs: 'reviews' },
+  { question: "Suggest pricing optimizations", needs: 'sales' },
+  { question: "Why are customers returning my products?", needs: 'returns' },
+  { question: "Who are my most loyal customers?", needs: 'customers' },
+  { question: "Which products make me the most profit?", needs: 'inventory' },
+  { question: "How much will I sell in the next two months?", needs: 'sales' },
+  { question: "How did my sales do last Diwali?", needs: 'sales' }
+];
+
+const notAvailable = (type: DatasetType) => `not available (no ${DATASET_LABELS[type].toLowerCase()} data)`;
+
+const NO_FILTER = 'all';
+
+interface FilterOption extends DataFilter {
+  group: string;
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ businessSummary, businessData }) => {
+const describeReturns = ({ netRevenue, refunds, returnRate }: NonNullable<BusinessSummary['returns']>) =>
+  `\n• Net Revenue after Returns: ${netRevenue === null ? notAvailable('sales') : `₹${netRevenue.toLocaleString('en-IN')}`} (₹${refunds.toLocaleString('en-IN')} refunded${returnRate === null ? '' : `, ${(returnRate * 100).toFixed(1)}% of units returned`})`;
+
+const describeCustomers = ({ repeatPurchaseRate, buyingCustomers, returningCustomerRevenue }: NonNullable<BusinessSummary['customers']>) =>
+  repeatPurchaseRate === null
+    ? ''
+    : `\n• Repeat Customers: ${(repeatPurchaseRate * 100).toFixed(0)}% of ${buyingCustomers} buyers (₹${returningCustomerRevenue.toLocaleString('en-IN')} from returning buyers)`;
+
+const describeMargins = ({ grossMargin, grossProfit, lowMargin }: NonNullable<BusinessSummary['margins']>) =>
+  grossMargin === null
+    ? ''
+    : `\n• Gross Margin: ${(grossMargin * 100).toFixed(1)}% (₹${Math.round(grossProfit).toLocaleString('en-IN')} profit${lowMargin.length > 0 ? `, ${lowMargin.length} low-margin products` : ''})`;
+
+const describeLatestMonth = ({ growth: { month } }: NonNullable<BusinessSummary['trends']>) =>
+  month === null
+    ? ''
+    : `\n• ${month.period}${month.partial ? ` (to ${month.throughDate})` : ''}: ₹${Math.round(month.current.revenue).toLocaleString('en-IN')}${month.revenueGrowth === null ? '' : `, ${month.revenueGrowth >= 0 ? 'up' : 'down'} ${Math.abs(month.revenueGrowth * 100).toFixed(0)}% on ${month.partial ? 'the same days of ' : ''}${month.previousPeriod}`}`;
+
+const describeForecast = ({ horizon, revenue, restock }: NonNullable<BusinessSummary['forecast']>) =>
+  `\n• Next ${horizon} Weeks: about ₹${Math.round(revenue.total).toLocaleString('en-IN')} forecast${restock.length > 0 ? `, ${restock.length} products likely to run out` : ''}`;
+
+const describeReorder = ({ outOfStock, reorderNow, reorderSoon }: NonNullable<BusinessSummary['reorder']>) =>
+  `\n• Restock: ${outOfStock > 0 ? `${outOfStock} out of stock, ` : ''}${reorderNow} at or below their reorder point, ${reorderSoon} due within a week`;
+
+const describeOverview = ({ totalRevenue, totalOrders, averageOrderValue, averageRating, returns, customers, margins, trends, forecast, reorder }: BusinessSummary) => `• Total Revenue: ${totalRevenue === null ? notAvailable('sales') : `₹${totalRevenue.toLocaleString('en-IN')}`}${trends ? describeLatestMonth(trends) : ''}${forecast ? describeForecast(forecast) : ''}${reorder ? describeReorder(reorder) : ''}${returns ? describeReturns(returns) : ''}${margins ? describeMargins(margins) : ''}
+• Orders: ${totalOrders === null ? notAvailable('sales') : totalOrders}${customers ? describeCustomers(customers) : ''}
+• Average Order Value: ${averageOrderValue === null ? notAvailable('sales') : `₹${averageOrderValue.toFixed(0)}`}
+• Customer Rating: ${averageRating === null ? notAvailable('reviews') : `${averageRating.toFixed(1)}/5`}`;
+
+// Branches first, then every value of each category column, e.g. Payment Mode: UPI
+const getFilterOptions = (summary: BusinessSummary): FilterOption[] => {
+  const options: FilterOption[] = (summary.sourceBreakdown || []).map(({ source }) => ({ column: 'Source', value: source, group: 'Branch' }));
+  (summary.customColumns || [])
+    .filter(column => column.type === 'category')
+    .forEach(column => (column.values || []).forEach(({ value }) => {
+      if (!options.some(option => option.column === column.name && option.value === value)) {
+        options.push({ column: column.name, value, group: column.name.replace(/_/g, ' ') });
+      }
+    }));
+  return options;
+};
+
+const describeFilter = (filter: FilterOption) => filter.column === 'Source' ? filter.value : `${filter.group}: ${filter.value}`;
+
+// Narrowing to one branch or value recomputes every figure from the matching rows
+const summarizeFiltered = (summary: BusinessSummary, data: ChatInterfaceProps['businessData'], filter: DataFilter | null) => {
+  if (!filter) return { data, summary };
+  const filtered = {
+    sales: filterRows(data.sales, filter),
+    inventory: filterRows(data.inventory, filter),
+    reviews: filterRows(data.reviews, filter),
+    returns: filterRows(data.returns, filter),
+    customers: filterRows(data.customers, filter)
+  };
+  return { data: filtered, summary: summarizeBusinessData(filtered, loadReorderSettings()) };
+};
+
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ businessSummary, businessData, onDataChange }) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
+  const [filter, setFilter] = useState<FilterOption | null>(null);
+  const [editingType, setEditingType] = useState<DatasetType | null>(null);
+  const [isReorderSettingsOpen, setIsReorderSettingsOpen] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
@@ -42,7 +139,17 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ businessSummary, business
     scrollToBottom();
   }, [messages, isTyping]);
 
+  const { availableDatasets } = businessSummary;
+  const missingDatasets = getMissingDatasets(businessSummary);
+  const filterOptions = useMemo(() => getFilterOptions(businessSummary), [businessSummary]);
+  const filterGroups = Array.from(new Set(filterOptions.map(option => option.group)));
+
+  const active = useMemo(() => summarizeFiltered(businessSummary, businessData, filter), [businessData, businessSummary, filter]);
+
   useEffect(() => {
+    setFilter(null);
+    const loaded = businessSummary.availableDatasets.map(type => DATASET_LABELS[type].toLowerCase());
+
     // Welcome message
     const welcomeMessage: Message = {
       id: 'welcome',
@@ -50,28 +157,42 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ businessSummary, business
       content: `Welcome to Vyaaparik AI! 🚀 I've analyzed your business data and I'm ready to help you make smarter decisions. 
 
 📊 **Your Business Overview:**
-• Total Revenue: ₹${businessSummary.totalRevenue.toLocaleString('en-IN')}
-• Orders: ${businessSummary.totalOrders}
-• Average Order Value: ₹${businessSummary.averageOrderValue.toFixed(0)}
-• Customer Rating: ${businessSummary.averageRating.toFixed(1)}/5
+${describeOverview(businessSummary)}
 
 Ask me anything about your business performance, trends, or get recommendations to grow your business!`,
       timestamp: new Date(),
       response: {
         insights: "Your business data has been successfully analyzed",
-        analysis: "I have comprehensive insights about your sales, inventory, and customer feedback ready for analysis",
+        analysis: `I have insights about your ${loaded.join(', ')} data ready for analysis`,
         recommendations: [
-          "Ask about sales trends",
-          "Inquire about inventory optimization", 
-          "Get customer satisfaction insights",
+          ...(businessSummary.totalRevenue !== null ? ["Ask about sales trends"] : []),
+          ...(businessSummary.lowStockItems !== null ? ["Inquire about inventory optimization"] : []),
+          ...(businessSummary.averageRating !== null ? ["Get customer satisfaction insights"] : []),
+          ...(businessSummary.returns ? ["Find out why products come back"] : []),
+          ...(businessSummary.customers && businessSummary.customers.repeatPurchaseRate !== null ? ["See who your repeat customers are"] : []),
           "Request growth recommendations"
         ]
       }
     };
     
-    setMessages([welcomeMessage]);
+    // After an edit the overview is refreshed and the conversation so far is kept
+    setMessages(prev => [welcomeMessage, ...prev.filter(message => message.id !== 'welcome')]);
   }, [businessSummary]);
 
+  const handleFilterChange = (value: string) => {
+    const next = value === NO_FILTER ? null : filterOptions[Number(value)];
+    setFilter(next);
+    const { summary } = summarizeFiltered(businessSummary, businessData, next);
+    setMessages(prev => [...prev, {
+      id: `filter-${Date.now()}`,
+      type: 'ai',
+      content: `${next ? `Now answering for ${describeFilter(next)} only.` : 'Looking at all your data again.'}
+
+${describeOverview(summary)}`,
+      timestamp: new Date()
+    }]);
+  };
+
   const handleSendMessage = async () => {
     if (!inputValue.trim() || isLoading) return;
 
@@ -88,11 +209,63 @@ Ask me anything about your business performance, trends, or get recommendations
     setIsTyping(true);
 
     try {
+      const identifiedShare = active.summary.customers?.identifiedRevenueShare ?? null;
+      // "last Diwali" becomes dates here, as the model has no calendar of lunar festivals
+      const festival = resolveFestivalQuery(userMessage.content);
+      const festivalSales = festival && availableDatasets.includes('sales') ? analyzeFestival(active.data.sales, festival) : null;
       const contextData = {
-        businessSummary,
-        sampleSalesData: businessData.sales.slice(0, 10), // Send sample for context
-        sampleInventoryData: businessData.inventory.slice(0, 10),
-        sampleReviews: businessData.reviews.slice(0, 10)
+        businessSummary: active.summary,
+        // Every branch side by side, so comparisons work even while one is selected
+        sourceBreakdown: businessSummary.sourceBreakdown,
+        filterNote: filter
+          ? `Figures in businessSummary and the samples cover ${describeFilter(filter)} only. Null values mean there is no such data for it.`
+          : undefined,
+        // Extra columns from the user's files; businessSummary.customColumns has their totals and per-value breakdowns
+        customColumns: businessSummary.customColumns && businessSummary.customColumns.length > 0
+          ? describeCustomColumns(businessSummary.customColumns)
+          : undefined,
+        // totalRevenue is before returns; returns.topReasons groups the reasons from the files into codes
+        returnsNote: active.summary.returns
+          ? `totalRevenue is gross. businessSummary.returns has net revenue, refunds, return rates by product and category, and the top return reasons.${active.summary.returns.refundsEstimated ? ' Some refunds are estimated from selling prices because the returns file had no amounts.' : ''}`
+          : undefined,
+        // Without cost prices a profit question would otherwise get a revenue answer
+        marginsNote: active.summary.margins
+          ? `businessSummary.margins has gross profit and margins from inventory cost prices${active.summary.margins.productsWithoutCost > 0 ? `; ${active.summary.margins.productsWithoutCost} products sold have no cost price and are left out` : ''}. lowMargin lists products under ${LOW_MARGIN * 100}% margin.`
+          : 'No cost prices were uploaded, so profit and margins are not available. Suggest adding a Cost Price column to the inventory file rather than answering from revenue.',
+        // "This month" means the latest month in the data, which is rarely the calendar month the question is asked in
+        trendsNote: active.summary.trends
+          ? `businessSummary.trends has daily (last 60 days), weekly and monthly revenue, orders and quantity, and monthly series for the top products${active.summary.trends.byCategory ? ', categories' : ''}${active.summary.trends.byLocation ? ' and locations' : ''}. trends.growth compares the latest day, week and month so far with the same stretch of the one before; use it for "this month" or "declining" questions. The data runs from ${active.summary.trends.firstDate} to ${active.summary.trends.lastDate}.`
+          : undefined,
+        // Forecasts are estimates; the intervals and backtest error say how far to trust them
+        forecastNote: active.summary.forecast
+          ? `businessSummary.forecast has weekly quantity and revenue forecasts for the ${active.summary.forecast.horizon} weeks from ${active.summary.forecast.startWeek}, overall and per product, with 80% and 95% prediction intervals. accuracy.wape is the share the model was off by on recent weeks it had not seen. Quote ranges, not just the point forecast.${active.summary.reorder ? ' For restocking, use businessSummary.reorder rather than forecast.restock.' : ''}`
+          : availableDatasets.includes('sales')
+            ? 'There are not enough weeks of dated sales to forecast demand (12 are needed). Say so rather than projecting from the totals.'
+            : undefined,
+        reorderNote: active.summary.reorder
+          ? `businessSummary.reorder.items lists the products to restock, most urgent first. Its dates count from ${active.summary.reorder.asOf}, the last day with sales; say so if that is not recent. Answer "what to restock" from it in that order: stock, daily demand, the supplier's lead time, reorder point (lead-time demand plus safety stock), stockout date, the date to order by, and the suggested order quantity (at least the economic order quantity). Lead times and order cost are the shop's own settings in reorder.settings. demandSource earlier_sales means the product has had no stock to sell for weeks, so its demand is from before it ran out.`
+          : undefined,
+        // The bundled calendar has fixed years; later festivals cannot be placed
+        festivalsNote: `${active.summary.festivals ? 'businessSummary.festivals compares daily revenue in each festival run-up, wedding season and end of season sale in the data with the four weeks before it (uplift 0.5 means 50% more per day), overall and for the top products and categories. ' : ''}Festival dates are known for ${CALENDAR_YEARS[0]} to ${CALENDAR_YEARS[CALENDAR_YEARS.length - 1]}.`,
+        festivalQuery: festival
+          ? festivalSales
+            ? { note: `The question is about ${festival.name} ${festival.year} (${festival.date}). festivalQuery.sales covers its shopping window from ${festival.start} to ${festival.end}${festivalSales.partial ? `, of which the data covers ${festivalSales.daysCovered} days` : ''}.`, sales: festivalSales }
+            : { note: `The question is about ${festival.name} ${festival.year} (${festival.start} to ${festival.end}), but the sales data does not cover those dates. Say so instead of answering from other periods.` }
+          : undefined,
+        // Customer rows stay out of the samples: names and phone numbers are personal data
+        customersNote: identifiedShare !== null && identifiedShare < 1
+          ? `businessSummary.customers covers the ${(identifiedShare * 100).toFixed(0)}% of revenue whose sales carry a Customer_ID.`
+          : undefined,
+        availableDatasets,
+        missingDatasets,
+        // Keeps the model from inventing figures for data the user never uploaded
+        missingDataNote: missingDatasets.length > 0
+          ? `No ${missingDatasets.map(type => DATASET_LABELS[type].toLowerCase()).join(' or ')} data was uploaded. Null values in businessSummary mean "not available"; say so instead of estimating them.`
+          : undefined,
+        sampleSalesData: availableDatasets.includes('sales') ? active.data.sales.slice(0, 10) : undefined, // Send sample for context
+        sampleInventoryData: availableDatasets.includes('inventory') ? active.data.inventory.slice(0, 10) : undefined,
+        sampleReviews: availableDatasets.includes('reviews') ? active.data.reviews.slice(0, 10) : undefined,
+        sampleReturns: availableDatasets.includes('returns') ? active.data.returns.slice(0, 10) : undefined
       };
 
       const response = await queryGemini(inputValue, contextData);
@@ -138,19 +311,35 @@ Ask me anything about your business performance, trends, or get recommendations
     }
   };
 
-  const suggestionButtons = [
-    "Why are my sales declining this month?",
-    "Which products should I restock first?",
-    "How can I improve customer satisfaction?",
-    "Generate a marketing campaign idea",
-    "Analyze my competitor positioning",
-    "Suggest pricing optimizations"
-  ];
+  const suggestionButtons = SUGGESTIONS
+    .filter(suggestion => availableDatasets.includes(suggestion.needs))
+    .map(suggestion => suggestion.question);
 
   const handleSuggestionClick = (suggestion: string) => {
     setInputValue(suggestion);
   };
 
+  // Saved settings feed every later summary, so recalculating is the same as an edit to the data
+  const handleReorderSettingsSave = (settings: ReorderSettings) => {
+    setIsReorderSettingsOpen(false);
+    saveReorderSettings(settings);
+    onDataChange(businessData);
+    toast({ title: "Reorder settings saved", description: "Reorder points have been recalculated" });
+  };
+
+  // Saved for the next visit too, the same way the upload screen keeps datasets
+  const handleGridSave = (rows: Record<string, unknown>[]) => {
+    const type = editingType;
+    setEditingType(null);
+    if (rows.length === 0) {
+      clearDataset(type);
+    } else if (!saveDataset(type, { rows, updatedAt: new Date().toISOString() })) {
+      toast({ title: "Changes kept for this visit only", description: "The data is too large to save in your browser" });
+    }
+    onDataChange({ ...businessData, [type]: rows });
+    toast({ title: `${DATASET_LABELS[type]} data updated`, description: "Every figure has been recalculated" });
+  };
+
   return (
     <div className="flex flex-col h-screen bg-background">
       {/* Header */}
@@ -171,18 +360,45 @@ Ask me anything about your business performance, trends, or get recommendations
           </div>
           
           <div className="flex items-center gap-2">
-            <Badge variant="secondary" className="bg-success/20 text-success">
-              <TrendingUp className="w-3 h-3 mr-1" />
-              Sales ✓
-            </Badge>
-            <Badge variant="secondary" className="bg-primary/20 text-primary">
-              <BarChart3 className="w-3 h-3 mr-1" />
-              Inventory ✓
-            </Badge>
-            <Badge variant="secondary" className="bg-accent/20 text-accent">
-              <Lightbulb className="w-3 h-3 mr-1" />
-              Reviews ✓
-            </Badge>
+            {filterOptions.length > 0 && (
+              <Select value={filter ? String(filterOptions.indexOf(filter)) : NO_FILTER} onValueChange={handleFilterChange}>
+                <SelectTrigger className="w-52 h-8 text-sm" aria-label="Filter data">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_FILTER}>All data</SelectItem>
+                  {filterGroups.map(group => (
+                    <SelectGroup key={group}>
+                      <SelectLabel>{group}</SelectLabel>
+                      {filterOptions.map((option, index) => option.group === group && (
+                        <SelectItem key={index} value={String(index)}>{option.value}</SelectItem>
+                      ))}
+                    </SelectGroup>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {availableDatasets.includes('inventory') && (
+              <Button size="sm" variant="ghost" className="h-8" onClick={() => setIsReorderSettingsOpen(true)}>
+                <Truck className="w-4 h-4 mr-1" />
+                Lead times
+              </Button>
+            )}
+            {DATASET_BADGES.map(({ type, icon, className }) => availableDatasets.includes(type) ? (
+              <button key={type} type="button" onClick={() => setEditingType(type)} title={`View or edit ${DATASET_LABELS[type].toLowerCase()} data`}>
+                <Badge variant="secondary" className={className}>
+                  {icon}
+                  {DATASET_LABELS[type]} ✓
+                </Badge>
+              </button>
+            ) : (
+              <button key={type} type="button" onClick={() => setEditingType(type)} title="Not uploaded · click to type it in">
+                <Badge variant="outline" className="text-muted-foreground">
+                  {icon}
+                  {DATASET_LABELS[type]} ✗
+                </Badge>
+              </button>
+            ))}
           </div>
         </div>
       </motion.header>
@@ -336,6 +552,28 @@ Ask me anything about your business performance, trends, or get recommendations
           </Button>
         </div>
       </motion.div>
+
+      {editingType && (
+        <DataGridDialog
+          key={editingType}
+          open
+          type={editingType}
+          title={`${DATASET_LABELS[editingType]} data`}
+          rows={businessData[editingType] as unknown as Record<string, unknown>[]}
+          onSave={handleGridSave}
+          onCancel={() => setEditingType(null)}
+        />
+      )}
+
+      {isReorderSettingsOpen && (
+        <ReorderSettingsDialog
+          open
+          suppliers={getSuppliers(businessData.inventory)}
+          settings={loadReorderSettings()}
+          onSave={handleReorderSettingsSave}
+          onCancel={() => setIsReorderSettingsOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRight, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DATASET_FIELDS, DATASET_REQUIRED_FIELDS, type DatasetType, type RawTable } from '@/lib/data-processing';
+import { isMappingComplete, type ColumnMapping, type FieldSuggestion } from '@/lib/column-mapping';
+
+// Radix Select cannot use an empty string as an item value
+const UNMAPPED = '__unmapped__';
+
+interface ColumnMappingDialogProps {
+  open: boolean;
+  type: DatasetType;
+  title: string;
+  fileName: string;
+  table: RawTable;
+  suggestions: FieldSuggestion[];
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({ open, type, title, fileName, table, suggestions, onConfirm, onCancel }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+
+  useEffect(() => {
+    setMapping(Object.fromEntries(suggestions.map(suggestion => [suggestion.field, suggestion.header])));
+  }, [suggestions]);
+
+  const requiredFields = DATASET_REQUIRED_FIELDS[type];
+  const complete = isMappingComplete(mapping, type);
+  const sampleRow = table.rows[0] || {};
+
+  const handleFieldChange = (field: string, header: string) => {
+    setMapping(prev => ({ ...prev, [field]: header === UNMAPPED ? null : header }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Match your columns</DialogTitle>
+          <DialogDescription>
+            We couldn't recognise every column in {fileName}. Confirm which column holds each {title.toLowerCase()} field.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-[60vh] overflow-y-auto pr-1">
+          {DATASET_FIELDS[type].map(field => {
+            const suggestion = suggestions.find(s => s.field === field);
+            const header = mapping[field] ?? null;
+            const isRequired = requiredFields.includes(field);
+            const isSuggested = suggestion?.header !== null && suggestion?.header === header;
+
+            return (
+              <div key={field} className="grid grid-cols-[1fr_auto_1fr] items-center gap-3">
+                <Select value={header ?? UNMAPPED} onValueChange={(value) => handleFieldChange(field, value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Not in this file" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not in this file</SelectItem>
+                    {table.headers.map(option => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <ArrowRight className="w-4 h-4 text-muted-foreground" />
+
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{field.replace('_', ' ')}</span>
+                    {isRequired && <span className="text-destructive">*</span>}
+                    {isSuggested && (
+                      <Badge variant="secondary" className="text-xs">
+                        <Sparkles className="w-3 h-3 mr-1" />
+                        {Math.round((suggestion?.score || 0) * 100)}% match
+                      </Badge>
+                    )}
+                  </div>
+                  {header && (
+                    <p className="text-xs text-muted-foreground truncate">
+                      e.g. {String(sampleRow[header] ?? '')}
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onConfirm(mapping)} disabled={!complete}>
+            Use these columns
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ColumnMappingDialog;
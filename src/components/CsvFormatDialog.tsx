@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableRow } from '@/components/ui/table';
+import { DELIMITER_OPTIONS, ENCODING_OPTIONS, type CsvFormat, type CsvSniff, type TextEncodingName } from '@/lib/csv-sniffing';
+
+interface CsvFormatDialogProps {
+  open: boolean;
+  fileName: string;
+  sniff: CsvSniff;
+  // Re-reads the start of the file with another encoding or delimiter
+  onPreview: (format: CsvFormat) => Promise<CsvSniff>;
+  onConfirm: (format: CsvFormat) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_COLUMNS = 6;
+
+const CsvFormatDialog: React.FC<CsvFormatDialogProps> = ({ open, fileName, sniff, onPreview, onConfirm, onCancel }) => {
+  const [format, setFormat] = useState<CsvFormat>(sniff.format);
+  const [lines, setLines] = useState<string[][]>(sniff.lines);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setFormat(sniff.format);
+    setLines(sniff.lines);
+  }, [sniff]);
+
+  const handleReadChange = async (updates: Partial<CsvFormat>) => {
+    const next = { ...format, ...updates };
+    setFormat(next);
+    setIsLoading(true);
+    try {
+      setLines((await onPreview(next)).lines);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const lastLine = lines.reduce((last, cells, index) => cells.length > 0 ? index : last, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Check how we read {fileName}</DialogTitle>
+          <DialogDescription>
+            Correct the encoding or separator if the text looks garbled, and click the row that holds your column names.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Encoding</p>
+            <Select value={format.encoding} onValueChange={(encoding) => handleReadChange({ encoding: encoding as TextEncodingName })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ENCODING_OPTIONS.map(option => (
+                  <SelectItem key={option.encoding} value={option.encoding}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Separator</p>
+            <Select value={format.delimiter} onValueChange={(delimiter) => handleReadChange({ delimiter })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DELIMITER_OPTIONS.map(option => (
+                  <SelectItem key={option.label} value={option.delimiter}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className={`max-h-[50vh] overflow-auto rounded-lg border ${isLoading ? 'opacity-50' : ''}`}>
+          <Table>
+            <TableBody>
+              {lines.slice(0, lastLine + 1).map((cells, index) => (
+                <TableRow
+                  key={index}
+                  onClick={() => cells.length > 0 && setFormat(prev => ({ ...prev, headerRow: index }))}
+                  className={`cursor-pointer ${index === format.headerRow ? 'bg-primary/10 font-semibold' : index < format.headerRow ? 'text-muted-foreground line-through' : ''}`}
+                >
+                  <TableCell className="w-10 text-xs text-muted-foreground">{index + 1}</TableCell>
+                  {Array.from({ length: PREVIEW_COLUMNS }, (_, column) => (
+                    <TableCell key={column} className="max-w-[10rem] truncate py-2">{cells[column] ?? ''}</TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Row {format.headerRow + 1} is the header{format.headerRow > 0 ? `; the ${format.headerRow === 1 ? 'row' : `${format.headerRow} rows`} above it will be skipped` : ''}.
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onConfirm(format)} disabled={isLoading}>Continue</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CsvFormatDialog;
@@ -0,0 +1,230 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Plus, Search, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Pagination, PaginationContent, PaginationEllipsis, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from '@/components/ui/pagination';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DATASET_FIELDS, DATASET_REQUIRED_FIELDS, coerceRecord, type DatasetType } from '@/lib/data-processing';
+import { checkRecord } from '@/lib/schema-validation';
+
+interface DataGridDialogProps {
+  open: boolean;
+  type: DatasetType;
+  title: string;
+  rows: Record<string, unknown>[];
+  onSave: (rows: Record<string, unknown>[]) => void;
+  onCancel: () => void;
+}
+
+interface DraftRow {
+  id: number;
+  record: Record<string, unknown>;
+  issues: Array<{ column: string; reason: string }>;
+}
+
+const PAGE_SIZE = 25;
+// Filled in by the app when analysis starts, not typed by the user
+const HIDDEN_COLUMNS = ['Product_ID', 'Original_Product'];
+// Enough rows to find the extra columns a file brought along
+const COLUMN_SAMPLE_SIZE = 200;
+
+// Typed text is checked the way an uploaded cell would be: "1,200" is a number, "3/4/24" a date
+const check = (record: Record<string, unknown>, type: DatasetType) => checkRecord(coerceRecord(record), type);
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+// First, last and the pages around the current one, with null marking a gap
+function getPageNumbers(page: number, pageCount: number): Array<number | null> {
+  const pages = Array.from(new Set([0, page - 1, page, page + 1, pageCount - 1]))
+    .filter(number => number >= 0 && number < pageCount)
+    .sort((a, b) => a - b);
+  return pages.flatMap((number, index) => index > 0 && number - pages[index - 1] > 1 ? [null, number] : [number]);
+}
+
+const DataGridDialog: React.FC<DataGridDialogProps> = ({ open, type, title, rows, onSave, onCancel }) => {
+  const [page, setPage] = useState(0);
+  const [search, setSearch] = useState('');
+  const nextIdRef = useRef(rows.length);
+
+  const columns = useMemo(() => {
+    const fields = DATASET_FIELDS[type];
+    const extra = new Set<string>();
+    rows.slice(0, COLUMN_SAMPLE_SIZE).forEach(row => Object.keys(row).forEach(column => {
+      if (!fields.includes(column) && !HIDDEN_COLUMNS.includes(column)) extra.add(column);
+    }));
+    return [...fields, ...extra];
+  }, [rows, type]);
+
+  const blankRow = (): DraftRow => {
+    const record = Object.fromEntries(columns.map(column => [column, '']));
+    return { id: nextIdRef.current++, record, issues: check(record, type) };
+  };
+
+  // The parent mounts the grid when it opens, so the draft starts from the saved rows each time.
+  // An empty dataset opens ready for typing, for shops with nothing to upload
+  const [draft, setDraft] = useState<DraftRow[]>(() => rows.length > 0
+    ? rows.map((record, id) => ({ id, record, issues: check(record, type) }))
+    : [blankRow()]);
+
+  const visible = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return draft;
+    return draft.filter(row => columns.some(column => String(row.record[column] ?? '').toLowerCase().includes(query)));
+  }, [columns, draft, search]);
+
+  const pageCount = Math.max(1, Math.ceil(visible.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = visible.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+  const invalidRows = useMemo(() => draft.filter(row => row.issues.length > 0).length, [draft]);
+
+  const updateCell = (id: number, column: string, value: string) => {
+    setDraft(prev => prev.map(row => {
+      if (row.id !== id) return row;
+      const record = { ...row.record, [column]: value };
+      // A renamed product is linked again when the data is next analyzed
+      if (column === 'Product') HIDDEN_COLUMNS.forEach(hidden => delete record[hidden]);
+      return { ...row, record, issues: check(record, type) };
+    }));
+  };
+
+  const handleAddRow = () => {
+    setDraft(prev => [...prev, blankRow()]);
+    setSearch('');
+    setPage(Math.floor(draft.length / PAGE_SIZE));
+  };
+
+  const handleDeleteRow = (id: number) => {
+    setDraft(prev => prev.filter(row => row.id !== id));
+  };
+
+  // Rows are stored typed, and blank optional cells are left out like unmapped columns.
+  // Product master names are applied at analysis, so a row goes back to the spelling it was uploaded with
+  const handleSave = () => {
+    onSave(draft.map(row => {
+      const { Original_Product, ...record } = row.record;
+      if (!isBlank(Original_Product)) record.Product = Original_Product;
+      HIDDEN_COLUMNS.forEach(hidden => delete record[hidden]);
+      return Object.fromEntries(Object.entries(coerceRecord(record)).filter(([, value]) => !isBlank(value)));
+    }));
+  };
+
+  const required = DATASET_REQUIRED_FIELDS[type];
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Click any cell to change it. Dates like 03/04/2024 and amounts like 1,20,000 are read the same way as in uploaded files.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(event) => { setSearch(event.target.value); setPage(0); }}
+              placeholder="Find rows"
+              className="pl-9 h-9"
+            />
+          </div>
+          <Button size="sm" variant="outline" onClick={handleAddRow}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add row
+          </Button>
+        </div>
+
+        <div className="max-h-[55vh] overflow-auto rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">#</TableHead>
+                {columns.map(column => (
+                  <TableHead key={column} className="whitespace-nowrap">
+                    {column.replace(/_/g, ' ')}{required.includes(column) ? ' *' : ''}
+                  </TableHead>
+                ))}
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pageRows.map(row => (
+                <TableRow key={row.id} className={row.issues.length > 0 ? 'bg-destructive/5' : ''}>
+                  <TableCell className="text-xs text-muted-foreground">{draft.indexOf(row) + 1}</TableCell>
+                  {columns.map(column => {
+                    const issue = row.issues.find(entry => entry.column === column);
+                    return (
+                      <TableCell key={column} className="p-1">
+                        <Input
+                          value={String(row.record[column] ?? '')}
+                          onChange={(event) => updateCell(row.id, column, event.target.value)}
+                          title={issue?.reason}
+                          aria-invalid={Boolean(issue)}
+                          aria-label={`${column.replace(/_/g, ' ')}, row ${draft.indexOf(row) + 1}`}
+                          className={`h-8 min-w-[8rem] text-sm ${issue ? 'border-destructive focus-visible:ring-destructive' : ''}`}
+                        />
+                      </TableCell>
+                    );
+                  })}
+                  <TableCell className="p-1">
+                    <Button size="icon" variant="ghost" className="h-8 w-8" aria-label="Delete row" onClick={() => handleDeleteRow(row.id)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-muted-foreground">
+            {draft.length.toLocaleString('en-IN')} rows
+            {invalidRows > 0 && <span className="text-destructive"> · {invalidRows} with problems (hover a red cell to see why)</span>}
+          </p>
+          {pageCount > 1 && (
+            <Pagination className="mx-0 w-auto">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    onClick={() => setPage(Math.max(0, currentPage - 1))}
+                    className={currentPage === 0 ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                  />
+                </PaginationItem>
+                {getPageNumbers(currentPage, pageCount).map((number, index) => (
+                  <PaginationItem key={number ?? `gap-${index}`}>
+                    {number === null ? (
+                      <PaginationEllipsis />
+                    ) : (
+                      <PaginationLink isActive={number === currentPage} onClick={() => setPage(number)} className="cursor-pointer">
+                        {number + 1}
+                      </PaginationLink>
+                    )}
+                  </PaginationItem>
+                ))}
+                <PaginationItem>
+                  <PaginationNext
+                    onClick={() => setPage(Math.min(pageCount - 1, currentPage + 1))}
+                    className={currentPage === pageCount - 1 ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={handleSave} disabled={invalidRows > 0 || draft.length === 0}>
+            {invalidRows > 0 ? `Fix ${invalidRows} ${invalidRows === 1 ? 'row' : 'rows'} to save` : 'Save changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DataGridDialog;
@@ -1,100 +1,633 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useRef } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Upload, FileText, CheckCircle, AlertCircle, TrendingUp, Package, MessageCircle } from 'lucide-react';
+import { Upload, FileText, CheckCircle, AlertCircle, AlertTriangle, Download, TrendingUp, Package, MessageCircle, RotateCcw, Users, Undo2, Trash2, Database, ClipboardPaste, Pencil, Table2 } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { parseCsvFile, validateSalesData, validateInventoryData, validateReviewData, generateBusinessSummary, type SalesData, type InventoryData, type ReviewData, type BusinessSummary } from '@/lib/data-processing';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import BulkUploadZone, { type FileAssignments } from '@/components/BulkUploadZone';
+import ColumnMappingDialog from '@/components/ColumnMappingDialog';
+import CsvFormatDialog from '@/components/CsvFormatDialog';
+import MergePreviewDialog from '@/components/MergePreviewDialog';
+import DataGridDialog from '@/components/DataGridDialog';
+import PasteDataDialog from '@/components/PasteDataDialog';
+import ProductMergeDialog from '@/components/ProductMergeDialog';
+import { prepareBusinessData, summarizeBusinessData, DATE_FIELDS, DATASET_LABELS, type SalesData, type InventoryData, type ReviewData, type ReturnData, type CustomerData, type BusinessData, type BusinessSummary } from '@/lib/data-processing';
+import { isExcelFile, type WorkbookSheet } from '@/lib/excel-parsing';
+import { isXmlFile } from '@/lib/tally-import';
+import { isJsonFile } from '@/lib/gstr1-import';
+import { isDelimitedTextFile, type CsvFormat, type CsvSniff } from '@/lib/csv-sniffing';
+import { type MarketplaceMatch } from '@/lib/marketplace-presets';
+import { validateRows, summarizeValidation, downloadRejectedRows, type ValidationReport } from '@/lib/schema-validation';
+import { suggestColumnMapping, isMappingComplete, loadSavedMapping, saveMapping, type ColumnMapping, type FieldSuggestion } from '@/lib/column-mapping';
+import { normalizeDate, type DateOrder } from '@/lib/date-parsing';
+import { findProductMerges, loadProductDecisions, recordMergeDecisions, saveProductDecisions, type ProposedMerge } from '@/lib/product-master';
+import { loadDataset, saveDataset, clearDataset, mergeDatasets, undoLastMerge, saveDedupeKey, type DedupeKey, type MergeDiff, type StoredDataset } from '@/lib/dataset-store';
+import { createParseSession, isParseCancelled, DEFAULT_PARSE_OPTIONS, type ParseOptions, type ParseSession, type RowLimitMode, type TablePreview } from '@/lib/parse-worker-client';
+import { loadReorderSettings } from '@/lib/reorder';
 import { collection, addDoc } from 'firebase/firestore';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { db, storage } from '@/lib/firebase';
 import { useToast } from '@/hooks/use-toast';
 
+type UploadStatus = 'idle' | 'uploading' | 'review' | 'success' | 'error';
+
+interface DatasetUpload<T> {
+  file: File | null;
+  status: UploadStatus;
+  data?: T[];
+  errors?: string[];
+  report?: ValidationReport;
+  // Percentage of the file read so far, and rows seen while reading
+  progress?: number;
+  rowsRead?: number;
+  // Set when a row cap or sample kept only part of the file
+  sourceRows?: number;
+  marketplace?: MarketplaceMatch;
+  // Branch label or file name the rows are tagged with, and files still waiting behind this one
+  source?: string;
+  queued?: number;
+}
+
 interface UploadState {
-  sales: { file: File | null; status: 'idle' | 'uploading' | 'success' | 'error'; data?: SalesData[]; errors?: string[] };
-  inventory: { file: File | null; status: 'idle' | 'uploading' | 'success' | 'error'; data?: InventoryData[]; errors?: string[] };
-  reviews: { file: File | null; status: 'idle' | 'uploading' | 'success' | 'error'; data?: ReviewData[]; errors?: string[] };
+  sales: DatasetUpload<SalesData>;
+  inventory: DatasetUpload<InventoryData>;
+  reviews: DatasetUpload<ReviewData>;
+  returns: DatasetUpload<ReturnData>;
+  customers: DatasetUpload<CustomerData>;
+}
+
+// Rows kept between visits; each upload is merged into these
+interface SavedDatasets {
+  sales: StoredDataset<SalesData> | null;
+  inventory: StoredDataset<InventoryData> | null;
+  reviews: StoredDataset<ReviewData> | null;
+  returns: StoredDataset<ReturnData> | null;
+  customers: StoredDataset<CustomerData> | null;
+}
+
+// Files dropped together are read one after another through the same steps
+interface UploadBatch {
+  queue: File[];
+  label: string;
+  source?: string;
+  // Names of the files read so far and their valid rows, saved together once the last file is in
+  files: string[];
+  rows: unknown[];
 }
 
+interface PendingMerge {
+  type: keyof UploadState;
+  title: string;
+  fileName: string;
+  incoming: unknown[];
+}
+
+interface PendingCsvFormat {
+  type: keyof UploadState;
+  title: string;
+  file: File;
+  sniff: CsvSniff;
+}
+
+interface PendingSheetSelection {
+  type: keyof UploadState;
+  title: string;
+  file: File;
+  sheets: WorkbookSheet[];
+  suggested: string[];
+}
+
+interface PendingColumnMapping {
+  type: keyof UploadState;
+  title: string;
+  file: File;
+  table: TablePreview;
+  suggestions: FieldSuggestion[];
+}
+
+interface PendingDateOrder {
+  type: keyof UploadState;
+  title: string;
+  mapping: ColumnMapping;
+  dateOrders: Record<string, DateOrder>;
+  field: string;
+  sample: string;
+}
+
+const DATASET_TITLES: Record<keyof UploadState, string> = {
+  sales: 'Sales Data',
+  inventory: 'Inventory Data',
+  reviews: 'Customer Reviews',
+  returns: 'Returns',
+  customers: 'Customers'
+};
+
+const ROW_LIMIT_OPTIONS: Array<{ mode: RowLimitMode; label: string }> = [
+  { mode: 'all', label: 'Load every row' },
+  { mode: 'first', label: `First ${DEFAULT_PARSE_OPTIONS.rowLimit.toLocaleString('en-IN')} rows` },
+  { mode: 'sample', label: `Random sample of ${DEFAULT_PARSE_OPTIONS.rowLimit.toLocaleString('en-IN')} rows` }
+];
+
+// e.g. "Amazon order report · 12 cancelled, 3 RTO orders left out"
+const describeMarketplace = ({ channel, excluded }: MarketplaceMatch) => {
+  const left = [
+    excluded.cancelled && `${excluded.cancelled} cancelled`,
+    excluded.returned && `${excluded.returned} returned`,
+    excluded.rto && `${excluded.rto} RTO`
+  ].filter(Boolean);
+  return `${channel} order report${left.length > 0 ? ` · ${left.join(', ')} orders left out` : ''}`;
+};
+
+// "Sales - Andheri.xlsx" is tagged "Sales - Andheri" unless the user typed a branch label
+const getFileSource = (file: File) => file.name.replace(/\.[^.]+$/, '');
+
+// Spell out how a numeric date reads in a given order, e.g. "3 April 2024"
+const describeDate = (sample: string, order: DateOrder) => {
+  const normalized = normalizeDate(sample, order);
+  if (!normalized) return sample;
+  return new Date(`${normalized.slice(0, 10)}T00:00:00Z`).toLocaleDateString('en-IN', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC'
+  });
+};
+
 interface DataUploadProps {
-  onComplete: (summary: BusinessSummary, data: { sales: SalesData[]; inventory: InventoryData[]; reviews: ReviewData[] }) => void;
+  onComplete: (summary: BusinessSummary, data: BusinessData) => void;
 }
 
 const DataUpload: React.FC<DataUploadProps> = ({ onComplete }) => {
   const [uploadState, setUploadState] = useState<UploadState>({
     sales: { file: null, status: 'idle' },
     inventory: { file: null, status: 'idle' },
-    reviews: { file: null, status: 'idle' }
+    reviews: { file: null, status: 'idle' },
+    returns: { file: null, status: 'idle' },
+    customers: { file: null, status: 'idle' }
   });
   const [isProcessing, setIsProcessing] = useState(false);
+  const [parseOptions, setParseOptions] = useState<ParseOptions>(DEFAULT_PARSE_OPTIONS);
+  const [pendingCsvFormat, setPendingCsvFormat] = useState<PendingCsvFormat | null>(null);
+  const [pendingSheet, setPendingSheet] = useState<PendingSheetSelection | null>(null);
+  const [pendingMapping, setPendingMapping] = useState<PendingColumnMapping | null>(null);
+  const [pendingDateOrder, setPendingDateOrder] = useState<PendingDateOrder | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+  const [productProposals, setProductProposals] = useState<ProposedMerge[] | null>(null);
+  const [isPasteOpen, setIsPasteOpen] = useState(false);
+  const [editingType, setEditingType] = useState<keyof UploadState | null>(null);
+  const [sourceLabels, setSourceLabels] = useState<Record<keyof UploadState, string>>({ sales: '', inventory: '', reviews: '', returns: '', customers: '' });
+  const [savedDatasets, setSavedDatasets] = useState<SavedDatasets>(() => ({
+    sales: loadDataset<SalesData>('sales'),
+    inventory: loadDataset<InventoryData>('inventory'),
+    reviews: loadDataset<ReviewData>('reviews'),
+    returns: loadDataset<ReturnData>('returns'),
+    customers: loadDataset<CustomerData>('customers')
+  }));
+  // Uploads finish inside long-lived drop callbacks, which would otherwise see stale saved data
+  const savedDatasetsRef = useRef(savedDatasets);
+  savedDatasetsRef.current = savedDatasets;
+  // One parser worker per dataset, alive from the drop until its rows are validated
+  const sessionsRef = useRef<Partial<Record<keyof UploadState, ParseSession>>>({});
+  const batchesRef = useRef<Partial<Record<keyof UploadState, UploadBatch>>>({});
+  // Files sorted from a folder or ZIP drop, waiting for their card to be free
+  const routesRef = useRef<Array<{ type: keyof UploadState; files: File[] }>>([]);
   const { toast } = useToast();
 
-  const updateUploadState = (type: keyof UploadState, updates: Partial<UploadState[typeof type]>) => {
+  const updateUploadState = (type: keyof UploadState, updates: Partial<DatasetUpload<unknown>>) => {
     setUploadState(prev => ({
       ...prev,
       [type]: { ...prev[type], ...updates }
     }));
   };
 
-  const createDropzone = (type: keyof UploadState, title: string, icon: React.ReactNode, description: string) => {
-    const onDrop = useCallback(async (acceptedFiles: File[]) => {
-      const file = acceptedFiles[0];
-      if (!file) return;
-
-      updateUploadState(type, { file, status: 'uploading' });
-
-      try {
-        const data = await parseCsvFile(file);
-        let validation;
-        
-        switch (type) {
-          case 'sales':
-            validation = validateSalesData(data);
-            break;
-          case 'inventory':
-            validation = validateInventoryData(data);
-            break;
-          case 'reviews':
-            validation = validateReviewData(data);
-            break;
-        }
+  const storeDataset = (type: keyof UploadState, dataset: StoredDataset<unknown> | null) => {
+    setSavedDatasets(prev => ({ ...prev, [type]: dataset }));
+    if (!dataset) {
+      clearDataset(type);
+    } else if (!saveDataset(type, dataset)) {
+      toast({
+        title: "Data kept for this visit only",
+        description: "It is too large to save in your browser, so you'll need to upload it again next time",
+        variant: "destructive",
+      });
+    }
+  };
 
-        if (validation.valid) {
-          updateUploadState(type, { status: 'success', data: data as any });
-          toast({
-            title: `${title} uploaded successfully!`,
-            description: `${data.length} records processed`,
-          });
-        } else {
-          updateUploadState(type, { status: 'error', errors: validation.errors });
-          toast({
-            title: `${title} validation failed`,
-            description: validation.errors[0],
-            variant: "destructive",
-          });
-        }
-      } catch (error) {
-        updateUploadState(type, { status: 'error', errors: ['Failed to parse CSV file'] });
-        toast({
-          title: "Upload failed",
-          description: "Please check your CSV file format",
-          variant: "destructive",
-        });
+  // Validated rows either start the saved dataset or wait for the user to review the merge,
+  // once for the whole batch so several branch files get a single preview
+  const acceptRows = (type: keyof UploadState, title: string, rows: unknown[], description: string) => {
+    const batch = batchesRef.current[type];
+    batch.rows = batch.rows.concat(rows);
+    if (batch.queue.length > 0) {
+      startNextFile(type, title);
+      return;
+    }
+
+    const incoming = batch.rows;
+    const fileName = batch.files.length > 1 ? `${batch.files.length} files` : batch.files[0];
+    const saved = savedDatasetsRef.current[type];
+    if (saved && saved.rows.length > 0) {
+      setPendingMerge({ type, title, fileName, incoming });
+      return;
+    }
+
+    storeDataset(type, { rows: incoming, updatedAt: new Date().toISOString() });
+    updateUploadState(type, { status: 'success', data: incoming, errors: undefined });
+    toast({
+      title: `${title} uploaded successfully!`,
+      description: batch.files.length > 1 ? `${incoming.length} records from ${fileName}` : description
+    });
+    startNextFile(type, title);
+  };
+
+  // Returns how many other files of the batch will not be saved, read or not
+  const stopBatch = (type: keyof UploadState) => {
+    const batch = batchesRef.current[type];
+    const skipped = batch ? batch.queue.length + Math.max(batch.files.length - 1, 0) : 0;
+    delete batchesRef.current[type];
+    startNextRoute();
+    return skipped;
+  };
+
+  // A combined drop fills the cards one dataset at a time so their dialogs never overlap
+  const startNextRoute = () => {
+    if (datasetTypes.some(type => batchesRef.current[type])) return;
+    const route = routesRef.current.shift();
+    if (!route) return;
+
+    batchesRef.current[route.type] = { queue: [...route.files], label: sourceLabels[route.type].trim(), files: [], rows: [] };
+    startNextFile(route.type, DATASET_TITLES[route.type]);
+  };
+
+  const handleBulkAssign = (assignments: FileAssignments) => {
+    const routes = datasetTypes
+      .filter(type => (assignments[type]?.length ?? 0) > 0)
+      .map(type => ({ type, files: assignments[type]! }));
+    if (routes.length === 0) return;
+
+    routesRef.current.push(...routes);
+    toast({
+      title: "Files sorted",
+      description: routes.map(({ type, files }) => `${files.length} ${DATASET_LABELS[type].toLowerCase()}`).join(', '),
+    });
+    startNextRoute();
+  };
+
+  // Pasted rows queue behind any upload on their card, like files sorted from a folder
+  const handlePaste = (type: keyof UploadState, file: File) => {
+    routesRef.current.push({ type, files: [file] });
+    startNextRoute();
+  };
+
+  const describeSkipped = (skipped: number) => `${skipped} other ${skipped === 1 ? 'file' : 'files'} in this upload ${skipped === 1 ? 'was' : 'were'} not saved`;
+
+  const applyValidationReport = (type: keyof UploadState, title: string, report: ValidationReport) => {
+    const errors = summarizeValidation(report);
+
+    if (report.totalRows > 0 && report.rejectedRows.length === 0 && report.missingColumns.length === 0) {
+      updateUploadState(type, { report });
+      acceptRows(type, title, report.validRows, `${report.totalRows} records processed`);
+    } else if (report.validRows.length > 0) {
+      // Some rows are usable: let the user decide between skipping the bad ones and fixing the file
+      updateUploadState(type, { status: 'review', errors, report });
+      toast({
+        title: `${title} has ${report.rejectedRows.length} problem rows`,
+        description: errors[0],
+        variant: "destructive",
+      });
+    } else {
+      const skipped = stopBatch(type);
+      if (skipped > 0) errors.push(describeSkipped(skipped));
+      updateUploadState(type, { status: 'error', errors, report });
+      toast({
+        title: `${title} validation failed`,
+        description: errors[0],
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSkipBadRows = (type: keyof UploadState, title: string) => {
+    const report = uploadState[type].report;
+    if (!report) return;
+
+    acceptRows(type, title, report.validRows, `${report.validRows.length} records processed, ${report.rejectedRows.length} rows skipped`);
+  };
+
+  const handleMergeConfirm = (diff: MergeDiff<unknown>, key: DedupeKey) => {
+    if (!pendingMerge) return;
+    const { type, title, fileName, incoming } = pendingMerge;
+    setPendingMerge(null);
+
+    saveDedupeKey(type, key);
+    storeDataset(type, mergeDatasets(savedDatasets[type]!.rows as unknown[], diff, fileName || title));
+    updateUploadState(type, { status: 'success', data: incoming, errors: undefined });
+    toast({
+      title: `${title} merged`,
+      description: `${diff.added.length} new, ${diff.changed.length} updated, ${diff.duplicates} duplicates skipped`,
+    });
+    startNextFile(type, title);
+  };
+
+  const handleMergeReplace = () => {
+    if (!pendingMerge) return;
+    const { type, title, incoming } = pendingMerge;
+    setPendingMerge(null);
+
+    storeDataset(type, { rows: incoming, updatedAt: new Date().toISOString() });
+    updateUploadState(type, { status: 'success', data: incoming, errors: undefined });
+    toast({ title: `${title} replaced`, description: `${incoming.length} records saved` });
+    startNextFile(type, title);
+  };
+
+  const handleMergeCancel = () => {
+    if (!pendingMerge) return;
+    handleAbortUpload(pendingMerge.type);
+    setPendingMerge(null);
+  };
+
+  const handleUndoMerge = (type: keyof UploadState, title: string) => {
+    const saved = savedDatasets[type];
+    if (!saved?.lastMerge) return;
+
+    storeDataset(type, undoLastMerge<unknown>(saved));
+    handleAbortUpload(type);
+    toast({ title: `Undid merge of ${saved.lastMerge.fileName}`, description: `${title} restored` });
+  };
+
+  // Edits replace the saved rows outright, so there is no merge left to undo
+  const handleGridSave = (rows: Record<string, unknown>[]) => {
+    const type = editingType;
+    setEditingType(null);
+    storeDataset(type, rows.length > 0 ? { rows, updatedAt: new Date().toISOString() } : null);
+    toast({ title: `${DATASET_TITLES[type]} updated`, description: `${rows.length.toLocaleString('en-IN')} records saved` });
+  };
+
+  const handleClearSaved = (type: keyof UploadState) => {
+    storeDataset(type, null);
+    handleAbortUpload(type);
+  };
+
+  // Aborting one file of a batch abandons the rest too
+  const handleAbortUpload = (type: keyof UploadState) => {
+    sessionsRef.current[type]?.cancel();
+    delete sessionsRef.current[type];
+    stopBatch(type);
+    updateUploadState(type, { file: null, status: 'idle', data: undefined, errors: undefined, report: undefined, progress: undefined, rowsRead: undefined, sourceRows: undefined, marketplace: undefined, source: undefined, queued: undefined });
+  };
+
+  const handleParseError = (type: keyof UploadState, file: File, error: unknown) => {
+    // A cancelled upload has already been reset
+    if (isParseCancelled(error)) return;
+
+    console.error('Error parsing file:', error);
+    sessionsRef.current[type]?.cancel();
+    delete sessionsRef.current[type];
+
+    const fileKind = isJsonFile(file) ? 'GSTR-1 JSON' : isXmlFile(file) ? 'Tally XML' : isExcelFile(file) ? 'Excel' : 'CSV';
+    const errors = [`Failed to parse ${fileKind} file`];
+    if (error instanceof Error && error.message) errors.push(error.message);
+    const skipped = stopBatch(type);
+    if (skipped > 0) errors.push(describeSkipped(skipped));
+    updateUploadState(type, { status: 'error', errors });
+    toast({
+      title: "Upload failed",
+      description: error instanceof Error && error.message ? error.message : `Please check your ${fileKind} file format`,
+      variant: "destructive",
+    });
+  };
+
+  const finalizeUpload = async (type: keyof UploadState, title: string, mapping: ColumnMapping, dateOrders: Record<string, DateOrder>) => {
+    const session = sessionsRef.current[type];
+    if (!session) return;
+
+    const report = await session.finalize<Record<string, unknown>>(type, mapping, dateOrders, batchesRef.current[type]?.source);
+    delete sessionsRef.current[type];
+    applyValidationReport(type, title, report);
+  };
+
+  const finishMapping = async (type: keyof UploadState, title: string, mapping: ColumnMapping, dateOrders: Record<string, DateOrder> = {}) => {
+    const session = sessionsRef.current[type];
+    if (!session) return;
+
+    // Detect DD/MM vs MM/DD once per column; ask only when no date in the file settles it
+    for (const field of DATE_FIELDS) {
+      const header = mapping[field];
+      if (!header || dateOrders[field]) continue;
+
+      const detection = await session.detectDateOrder(header);
+      if (detection.ambiguous && detection.sample) {
+        setPendingDateOrder({ type, title, mapping, dateOrders, field, sample: detection.sample });
+        return;
       }
-    }, [type, title, toast]);
+      dateOrders = { ...dateOrders, [field]: detection.order };
+    }
+
+    await finalizeUpload(type, title, mapping, dateOrders);
+  };
+
+  const processTable = async (type: keyof UploadState, title: string, file: File, table: TablePreview) => {
+    if (table.rowCount === 0) {
+      applyValidationReport(type, title, validateRows([], type));
+      return;
+    }
+
+    if (table.truncated) {
+      updateUploadState(type, { sourceRows: table.sourceRowCount });
+    }
+    if (table.marketplace) {
+      updateUploadState(type, { marketplace: table.marketplace });
+    }
+
+    const savedMapping = loadSavedMapping(table.headers, type);
+    if (savedMapping) {
+      await finishMapping(type, title, savedMapping);
+      return;
+    }
+
+    // Standard headers need no confirmation; anything else goes through the mapping wizard
+    const suggestion = suggestColumnMapping(table.headers, type, table.rows);
+    if (suggestion.exact) {
+      await finishMapping(type, title, suggestion.mapping);
+    } else {
+      setPendingMapping({ type, title, file, table, suggestions: suggestion.suggestions });
+    }
+  };
+
+  const handleMappingConfirm = (mapping: ColumnMapping) => {
+    if (!pendingMapping) return;
+    const { type, title, file, table } = pendingMapping;
+    setPendingMapping(null);
+
+    saveMapping(table.headers, type, mapping);
+    finishMapping(type, title, mapping).catch(error => handleParseError(type, file, error));
+  };
+
+  const handleMappingCancel = () => {
+    if (!pendingMapping) return;
+    handleAbortUpload(pendingMapping.type);
+    setPendingMapping(null);
+  };
+
+  const handleDateOrderSelect = (order: DateOrder) => {
+    if (!pendingDateOrder) return;
+    const { type, title, mapping, dateOrders, field } = pendingDateOrder;
+    const file = uploadState[type].file!;
+    setPendingDateOrder(null);
+
+    finishMapping(type, title, mapping, { ...dateOrders, [field]: order }).catch(error => handleParseError(type, file, error));
+  };
+
+  const handleDateOrderCancel = () => {
+    if (!pendingDateOrder) return;
+    handleAbortUpload(pendingDateOrder.type);
+    setPendingDateOrder(null);
+  };
+
+  const handleSheetSelect = (sheetName: string) => {
+    if (!pendingSheet) return;
+    const { type, title, file } = pendingSheet;
+    setPendingSheet(null);
+
+    const session = sessionsRef.current[type];
+    if (!session) return;
+
+    session.selectSheet(sheetName)
+      .then(table => processTable(type, title, file, table))
+      .catch(error => handleParseError(type, file, error));
+  };
+
+  const handleCsvFormatPreview = (format: CsvFormat) => {
+    const session = pendingCsvFormat && sessionsRef.current[pendingCsvFormat.type];
+    return session ? session.sniff(format) : Promise.resolve({ format, lines: [], confident: true });
+  };
+
+  const handleCsvFormatConfirm = (format: CsvFormat) => {
+    if (!pendingCsvFormat) return;
+    const { type, title, file } = pendingCsvFormat;
+    setPendingCsvFormat(null);
+
+    openFile(type, title, file, format);
+  };
+
+  const handleCsvFormatCancel = () => {
+    if (!pendingCsvFormat) return;
+    handleAbortUpload(pendingCsvFormat.type);
+    setPendingCsvFormat(null);
+  };
+
+  const handleSheetPickerClose = () => {
+    if (!pendingSheet) return;
+    handleAbortUpload(pendingSheet.type);
+    setPendingSheet(null);
+  };
+
+  const processFile = async (type: keyof UploadState, title: string, file: File) => {
+    // Dropping a new file replaces whatever the previous one was still doing
+    sessionsRef.current[type]?.cancel();
+    const session = createParseSession(file, type, parseOptions, progress => {
+      updateUploadState(type, {
+        progress: progress.total > 0 ? Math.round((progress.loaded / progress.total) * 100) : 100,
+        rowsRead: progress.rows
+      });
+    });
+    sessionsRef.current[type] = session;
+
+    const batch = batchesRef.current[type];
+    updateUploadState(type, { file, status: 'uploading', progress: 0, rowsRead: 0, sourceRows: undefined, marketplace: undefined, report: undefined, errors: undefined, source: batch?.source, queued: batch?.queue.length });
+
+    try {
+      if (!isDelimitedTextFile(file)) {
+        await openFile(type, title, file);
+        return;
+      }
+
+      // Billing tools export UTF-16, semicolons and report titles; confirm any guess that isn't clear-cut
+      const sniff = await session.sniff();
+      if (sniff.confident) {
+        await openFile(type, title, file, sniff.format);
+      } else {
+        setPendingCsvFormat({ type, title, file, sniff });
+      }
+    } catch (error) {
+      handleParseError(type, file, error);
+    }
+  };
+
+  const openFile = async (type: keyof UploadState, title: string, file: File, csvFormat?: CsvFormat) => {
+    const session = sessionsRef.current[type];
+    if (!session) return;
+
+    try {
+      const opened = await session.open(csvFormat);
+      if (opened.preview) {
+        await processTable(type, title, file, opened.preview);
+        return;
+      }
+
+      const sheets = (opened.sheets || []).filter(sheet => sheet.rowCount > 0);
+      if (sheets.length === 0) {
+        applyValidationReport(type, title, validateRows([], type));
+        return;
+      }
+
+      // Pick the sheet automatically when only one can hold this dataset
+      const matchingSheets = sheets.filter(sheet => isMappingComplete(suggestColumnMapping(sheet.headers, type).mapping, type));
+      const candidates = matchingSheets.length > 0 ? matchingSheets : sheets;
+
+      if (candidates.length === 1) {
+        await processTable(type, title, file, await session.selectSheet(candidates[0].name));
+      } else {
+        setPendingSheet({ type, title, file, sheets, suggested: matchingSheets.map(sheet => sheet.name) });
+      }
+    } catch (error) {
+      handleParseError(type, file, error);
+    }
+  };
+
+  const startNextFile = (type: keyof UploadState, title: string) => {
+    const batch = batchesRef.current[type];
+    const file = batch?.queue.shift();
+    if (!batch || !file) {
+      stopBatch(type);
+      return;
+    }
+
+    batch.source = batch.label || getFileSource(file);
+    batch.files.push(file.name);
+    processFile(type, title, file);
+  };
+
+  const createDropzone = (type: keyof UploadState, title: string, icon: React.ReactNode, description: string) => {
+    // Rebuilt each render so a drop always sees the current source label
+    const onDrop = (acceptedFiles: File[]) => {
+      if (acceptedFiles.length === 0) return;
+
+      // One file per branch is the usual case, e.g. three sales registers for three shops
+      batchesRef.current[type] = { queue: [...acceptedFiles], label: sourceLabels[type].trim(), files: [], rows: [] };
+      startNextFile(type, title);
+    };
 
     const { getRootProps, getInputProps, isDragActive } = useDropzone({
       onDrop,
       accept: {
         'text/csv': ['.csv'],
+        // Amazon order reports are tab-separated .txt files
+        'text/tab-separated-values': ['.tsv', '.txt'],
         'application/vnd.ms-excel': ['.xls'],
-        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx']
-      },
-      maxFiles: 1
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+        'text/xml': ['.xml'],
+        // A GSTR-1 return only describes sales
+        ...(type === 'sales' ? { 'application/json': ['.json'] } : {})
+      }
     });
 
     const state = uploadState[type];
+    const saved = savedDatasets[type];
     
     return (
       <motion.div
@@ -108,8 +641,17 @@ const DataUpload: React.FC<DataUploadProps> = ({ onComplete }) => {
             {icon}
             <h3 className="text-lg font-semibold">{title}</h3>
             {state.status === 'success' && <CheckCircle className="w-5 h-5 text-success" />}
+            {state.status === 'review' && <AlertTriangle className="w-5 h-5 text-primary" />}
             {state.status === 'error' && <AlertCircle className="w-5 h-5 text-destructive" />}
           </div>
+
+          <Input
+            value={sourceLabels[type]}
+            onChange={(e) => setSourceLabels(prev => ({ ...prev, [type]: e.target.value }))}
+            placeholder="Branch or store name (optional)"
+            aria-label={`Branch label for ${title.toLowerCase()}`}
+            className="mb-3 h-9 text-sm"
+          />
           
           <div
             {...getRootProps()}
@@ -122,7 +664,7 @@ const DataUpload: React.FC<DataUploadProps> = ({ onComplete }) => {
               
               {state.status === 'idle' && (
                 <>
-                  <p className="text-lg font-medium">Drop your {title.toLowerCase()} file here</p>
+                  <p className="text-lg font-medium">Drop your {title.toLowerCase()} files here</p>
                   <p className="text-sm text-muted-foreground">{description}</p>
                 </>
               )}
@@ -130,7 +672,10 @@ const DataUpload: React.FC<DataUploadProps> = ({ onComplete }) => {
               {state.status === 'uploading' && (
                 <div className="text-center">
                   <p className="text-lg font-medium">Processing...</p>
-                  <Progress value={66} className="w-48 mt-2" />
+                  <Progress value={state.progress ?? 0} className="w-48 mt-2" />
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {state.progress ?? 0}% · {(state.rowsRead ?? 0).toLocaleString('en-IN')} rows read
+                  </p>
                 </div>
               )}
               
@@ -138,6 +683,30 @@ const DataUpload: React.FC<DataUploadProps> = ({ onComplete }) => {
                 <div className="text-center">
                   <p className="text-lg font-medium text-success">✅ Upload Successful!</p>
                   <p className="text-sm text-muted-foreground">{state.data.length} records processed</p>
+                  {state.sourceRows && (
+                    <p className="text-xs text-muted-foreground">
+                      {parseOptions.mode === 'sample' ? 'Sampled' : 'Loaded'} from {state.sourceRows.toLocaleString('en-IN')} rows in the file
+                    </p>
+                  )}
+                  {state.report && state.report.rejectedRows.length > 0 && (
+                    <p className="text-xs text-muted-foreground">{state.report.rejectedRows.length} bad rows skipped</p>
+                  )}
+                  {state.marketplace && (
+                    <p className="text-xs text-muted-foreground">{describeMarketplace(state.marketplace)}</p>
+                  )}
+                </div>
+              )}
+
+              {state.status === 'review' && state.report && (
+                <div className="text-center">
+                  <p className="text-lg font-medium text-primary">⚠️ {state.report.rejectedRows.length} of {state.report.totalRows} rows have problems</p>
+                  {state.errors && (
+                    <div className="text-sm text-muted-foreground mt-2">
+                      {state.errors.map((error, index) => (
+                        <p key={index}>{error}</p>
+                      ))}
+                    </div>
+                  )}
                 </div>
               )}
               
@@ -156,6 +725,64 @@ const DataUpload: React.FC<DataUploadProps> = ({ onComplete }) => {
             </div>
           </div>
           
+          {state.status === 'uploading' && (
+            <Button size="sm" variant="outline" className="mt-4 w-full" onClick={() => handleAbortUpload(type)}>
+              Cancel
+            </Button>
+          )}
+
+          {state.status === 'review' && (
+            <div className="mt-4 flex gap-2">
+              <Button size="sm" className="flex-1" onClick={() => handleSkipBadRows(type, title)}>
+                Skip bad rows
+              </Button>
+              <Button size="sm" variant="outline" className="flex-1" onClick={() => handleAbortUpload(type)}>
+                Abort
+              </Button>
+            </div>
+          )}
+
+          {state.file && state.report && state.report.rejectedRows.length > 0 && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="mt-2 w-full"
+              onClick={() => downloadRejectedRows(state.report!, state.file!.name)}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download rejected rows
+            </Button>
+          )}
+
+          {saved && saved.rows.length > 0 && state.status !== 'uploading' && (
+            <div className="mt-4 p-3 bg-muted rounded-lg flex items-center gap-2">
+              <Database className="w-4 h-4" />
+              <span className="text-sm font-medium flex-1">
+                {saved.rows.length.toLocaleString('en-IN')} records saved
+              </span>
+              <Button size="sm" variant="ghost" onClick={() => setEditingType(type)}>
+                <Pencil className="w-4 h-4 mr-1" />
+                Edit
+              </Button>
+              {saved.lastMerge && (
+                <Button size="sm" variant="ghost" onClick={() => handleUndoMerge(type, title)}>
+                  <Undo2 className="w-4 h-4 mr-1" />
+                  Undo merge
+                </Button>
+              )}
+              <Button size="sm" variant="ghost" aria-label={`Clear saved ${title.toLowerCase()}`} onClick={() => handleClearSaved(type)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+
+          {(!saved || saved.rows.length === 0) && state.status === 'idle' && (
+            <Button size="sm" variant="ghost" className="mt-2 w-full" onClick={() => setEditingType(type)}>
+              <Table2 className="w-4 h-4 mr-2" />
+              No file? Type it in
+            </Button>
+          )}
+
           {state.file && (
             <div className="mt-4 p-3 bg-muted rounded-lg">
               <div className="flex items-center gap-2">
@@ -165,6 +792,12 @@ const DataUpload: React.FC<DataUploadProps> = ({ onComplete }) => {
                   ({(state.file.size / 1024).toFixed(1)} KB)
                 </span>
               </div>
+              {state.source && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Tagged as {state.source}
+                  {state.queued ? ` · ${state.queued} more ${state.queued === 1 ? 'file' : 'files'} queued` : ''}
+                </p>
+              )}
             </div>
           )}
         </Card>
@@ -172,42 +805,73 @@ const DataUpload: React.FC<DataUploadProps> = ({ onComplete }) => {
     );
   };
 
-  const allUploadsComplete = uploadState.sales.status === 'success' && 
-                           uploadState.inventory.status === 'success' && 
-                           uploadState.reviews.status === 'success';
+  // Analysis can start with any saved dataset, but not while a new file is still being checked
+  const datasetTypes: Array<keyof UploadState> = ['sales', 'inventory', 'reviews', 'returns', 'customers'];
+  const isBusy = datasetTypes.some(type => uploadState[type].status === 'uploading' || uploadState[type].status === 'review');
+  const readyDatasets = datasetTypes.filter(type => (savedDatasets[type]?.rows.length ?? 0) > 0);
+  const missingDatasets = datasetTypes.filter(type => !readyDatasets.includes(type));
+  const canStartAnalysis = readyDatasets.length > 0 && !isBusy;
+
+  const getProductNames = () => ({
+    sales: (savedDatasets.sales?.rows || []).map(row => row.Product),
+    inventory: (savedDatasets.inventory?.rows || []).map(row => row.Product),
+    reviews: (savedDatasets.reviews?.rows || []).map(row => row.Product),
+    returns: (savedDatasets.returns?.rows || []).map(row => row.Product)
+  });
 
-  const handleProceedToAnalysis = async () => {
-    if (!allUploadsComplete) return;
+  // Look-alike product names need the user's say before analysis links them
+  const handleProceedToAnalysis = () => {
+    if (!canStartAnalysis) return;
+
+    const proposals = findProductMerges(getProductNames(), loadProductDecisions());
+    if (proposals.length > 0) {
+      setProductProposals(proposals);
+    } else {
+      startAnalysis();
+    }
+  };
 
+  const handleProductMergeConfirm = (accepted: Set<string>) => {
+    if (!productProposals) return;
+    saveProductDecisions(recordMergeDecisions(loadProductDecisions(), productProposals, accepted));
+    setProductProposals(null);
+    startAnalysis();
+  };
+
+  const startAnalysis = async () => {
     setIsProcessing(true);
     
     try {
+      // Every row gets a canonical Product_ID so all datasets agree on what a product is; extra columns get typed
+      const data = prepareBusinessData({
+        sales: savedDatasets.sales?.rows || [],
+        inventory: savedDatasets.inventory?.rows || [],
+        reviews: savedDatasets.reviews?.rows || [],
+        returns: savedDatasets.returns?.rows || [],
+        customers: savedDatasets.customers?.rows || []
+      }, loadProductDecisions());
+      const { sales, inventory, reviews, returns, customers } = data;
+
       // Generate business summary
-      const summary = generateBusinessSummary(
-        uploadState.sales.data!,
-        uploadState.inventory.data!,
-        uploadState.reviews.data!
-      );
+      const summary = summarizeBusinessData(data, loadReorderSettings());
 
       // Store data in Firebase (optional - for persistence)
       const sessionData = {
         timestamp: new Date(),
         summary,
         dataStats: {
-          salesRecords: uploadState.sales.data!.length,
-          inventoryItems: uploadState.inventory.data!.length,
-          reviewCount: uploadState.reviews.data!.length
+          salesRecords: sales.length,
+          inventoryItems: inventory.length,
+          reviewCount: reviews.length,
+          returnRecords: returns.length,
+          customerCount: customers.length
         }
       };
 
       await addDoc(collection(db, 'business-sessions'), sessionData);
 
       // Call the completion handler
-      onComplete(summary, {
-        sales: uploadState.sales.data!,
-        inventory: uploadState.inventory.data!,
-        reviews: uploadState.reviews.data!
-      });
+      onComplete(summary, data);
 
       toast({
         title: "🚀 Data Analysis Ready!",
@@ -236,18 +900,45 @@ const DataUpload: React.FC<DataUploadProps> = ({ onComplete }) => {
           Upload Your Business Data
         </h2>
         <p className="text-lg text-muted-foreground">
-          Upload your CSV files to unlock AI-powered business insights
+          Upload your CSV or Excel files to unlock AI-powered business insights
         </p>
+        <div className="flex items-center justify-center gap-2 mt-4 text-sm text-muted-foreground">
+          <span>Large files:</span>
+          <Select
+            value={parseOptions.mode}
+            onValueChange={(mode) => setParseOptions(prev => ({ ...prev, mode: mode as RowLimitMode }))}
+          >
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ROW_LIMIT_OPTIONS.map(option => (
+                <SelectItem key={option.mode} value={option.mode}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </motion.div>
 
-      <div className="grid md:grid-cols-3 gap-6">
-        {createDropzone('sales', 'Sales Data', <TrendingUp className="w-6 h-6 text-primary" />, 'CSV with Date, Product, Quantity, Amount columns')}
-        {createDropzone('inventory', 'Inventory Data', <Package className="w-6 h-6 text-secondary" />, 'CSV with Product, Stock, Price columns')}
-        {createDropzone('reviews', 'Customer Reviews', <MessageCircle className="w-6 h-6 text-accent" />, 'CSV with Date, Rating, Review, Product columns')}
+      <BulkUploadZone onAssign={handleBulkAssign} />
+
+      <div className="flex justify-center -mt-4">
+        <Button variant="ghost" onClick={() => setIsPasteOpen(true)}>
+          <ClipboardPaste className="w-4 h-4 mr-2" />
+          No file? Paste rows from Google Sheets or your notes
+        </Button>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {createDropzone('sales', DATASET_TITLES.sales, <TrendingUp className="w-6 h-6 text-primary" />, 'CSV, Excel, Tally day book or GSTR-1 JSON with Date, Product, Quantity, Amount columns')}
+        {createDropzone('inventory', DATASET_TITLES.inventory, <Package className="w-6 h-6 text-secondary" />, 'CSV, Excel or Tally stock summary with Product, Stock, Price columns, plus Cost Price for profit margins')}
+        {createDropzone('reviews', DATASET_TITLES.reviews, <MessageCircle className="w-6 h-6 text-accent" />, 'CSV or Excel with Date, Rating, Review, Product columns')}
+        {createDropzone('returns', DATASET_TITLES.returns, <RotateCcw className="w-6 h-6 text-destructive" />, 'Marketplace return report, Tally credit notes or CSV with Date, Product, Quantity and an optional Reason')}
+        {createDropzone('customers', DATASET_TITLES.customers, <Users className="w-6 h-6 text-secondary" />, 'CSV or Excel with Customer ID and Name, plus Phone, City or Join Date if you have them. Add a Customer ID column to sales to link them')}
       </div>
 
       <AnimatePresence>
-        {allUploadsComplete && (
+        {canStartAnalysis && (
           <motion.div
             initial={{ opacity: 0, scale: 0.8 }}
             animate={{ opacity: 1, scale: 1 }}
@@ -263,8 +954,14 @@ const DataUpload: React.FC<DataUploadProps> = ({ onComplete }) => {
                 >
                   🎉
                 </motion.div>
-                <h3 className="text-xl font-semibold">All Data Uploaded Successfully!</h3>
-                <p className="text-muted-foreground">Ready to analyze your business with AI</p>
+                <h3 className="text-xl font-semibold">
+                  {missingDatasets.length === 0 ? 'All Data Uploaded Successfully!' : 'Ready to Analyze!'}
+                </h3>
+                <p className="text-muted-foreground">
+                  {missingDatasets.length === 0
+                    ? 'Ready to analyze your business with AI'
+                    : `Analysis will use ${readyDatasets.map(type => DATASET_LABELS[type].toLowerCase()).join(' and ')} data. Add ${missingDatasets.map(type => DATASET_LABELS[type].toLowerCase()).join(' or ')} data any time for a fuller picture.`}
+                </p>
                 
                 <Button
                   onClick={handleProceedToAnalysis}
@@ -278,6 +975,114 @@ const DataUpload: React.FC<DataUploadProps> = ({ onComplete }) => {
           </motion.div>
         )}
       </AnimatePresence>
+
+      <Dialog open={pendingSheet !== null} onOpenChange={(open) => !open && handleSheetPickerClose()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Choose a sheet</DialogTitle>
+            <DialogDescription>
+              {pendingSheet?.file.name} has several sheets. Pick the one that holds your {pendingSheet?.title.toLowerCase()}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            {pendingSheet?.sheets.map(sheet => (
+              <Button
+                key={sheet.name}
+                variant={pendingSheet.suggested.includes(sheet.name) ? 'default' : 'outline'}
+                className="w-full justify-between h-auto py-3"
+                onClick={() => handleSheetSelect(sheet.name)}
+              >
+                <span className="font-medium">{sheet.name}</span>
+                <span className="text-xs opacity-80">{sheet.rowCount} rows</span>
+              </Button>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={pendingDateOrder !== null} onOpenChange={(open) => !open && handleDateOrderCancel()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>How should we read your dates?</DialogTitle>
+            <DialogDescription>
+              Dates like {pendingDateOrder?.sample} in your {pendingDateOrder?.title.toLowerCase()} can be read two ways.
+            </DialogDescription>
+          </DialogHeader>
+          {pendingDateOrder && (
+            <div className="grid grid-cols-2 gap-3">
+              <Button variant="default" className="h-auto py-3 flex-col" onClick={() => handleDateOrderSelect('DMY')}>
+                <span className="font-medium">DD/MM/YYYY</span>
+                <span className="text-xs opacity-80">{describeDate(pendingDateOrder.sample, 'DMY')}</span>
+              </Button>
+              <Button variant="outline" className="h-auto py-3 flex-col" onClick={() => handleDateOrderSelect('MDY')}>
+                <span className="font-medium">MM/DD/YYYY</span>
+                <span className="text-xs opacity-80">{describeDate(pendingDateOrder.sample, 'MDY')}</span>
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {pendingCsvFormat && (
+        <CsvFormatDialog
+          open
+          fileName={pendingCsvFormat.file.name}
+          sniff={pendingCsvFormat.sniff}
+          onPreview={handleCsvFormatPreview}
+          onConfirm={handleCsvFormatConfirm}
+          onCancel={handleCsvFormatCancel}
+        />
+      )}
+
+      {pendingMapping && (
+        <ColumnMappingDialog
+          open
+          type={pendingMapping.type}
+          title={pendingMapping.title}
+          fileName={pendingMapping.file.name}
+          table={pendingMapping.table}
+          suggestions={pendingMapping.suggestions}
+          onConfirm={handleMappingConfirm}
+          onCancel={handleMappingCancel}
+        />
+      )}
+
+      {pendingMerge && (
+        <MergePreviewDialog
+          open
+          type={pendingMerge.type}
+          title={pendingMerge.title}
+          fileName={pendingMerge.fileName || 'this file'}
+          existing={(savedDatasets[pendingMerge.type]?.rows || []) as unknown[]}
+          incoming={pendingMerge.incoming}
+          onMerge={handleMergeConfirm}
+          onReplace={handleMergeReplace}
+          onCancel={handleMergeCancel}
+        />
+      )}
+
+      <PasteDataDialog open={isPasteOpen} onOpenChange={setIsPasteOpen} onPaste={handlePaste} />
+
+      {editingType && (
+        <DataGridDialog
+          key={editingType}
+          open
+          type={editingType}
+          title={DATASET_TITLES[editingType]}
+          rows={(savedDatasets[editingType]?.rows || []) as Record<string, unknown>[]}
+          onSave={handleGridSave}
+          onCancel={() => setEditingType(null)}
+        />
+      )}
+
+      {productProposals && (
+        <ProductMergeDialog
+          open
+          proposals={productProposals}
+          onConfirm={handleProductMergeConfirm}
+          onCancel={() => setProductProposals(null)}
+        />
+      )}
     </div>
   );
 };
@@ -4,10 +4,10 @@ import { Sparkles, Database, TrendingUp } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { getDemoBusinessSummary } from '@/lib/demo-data';
-import { type BusinessSummary, type SalesData, type InventoryData, type ReviewData } from '@/lib/data-processing';
+import { type BusinessData, type BusinessSummary } from '@/lib/data-processing';
 
 interface DemoLoaderProps {
-  onLoadDemo: (summary: BusinessSummary, data: { sales: SalesData[]; inventory: InventoryData[]; reviews: ReviewData[] }) => void;
+  onLoadDemo: (summary: BusinessSummary, data: BusinessData) => void;
 }
 
 const DemoLoader: React.FC<DemoLoaderProps> = ({ onLoadDemo }) => {
@@ -0,0 +1,84 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { type DatasetType } from '@/lib/data-processing';
+import { describeDedupeKey, diffDatasets, getDedupeKeyOptions, loadDedupeKey, type DedupeKey, type MergeDiff } from '@/lib/dataset-store';
+
+interface MergePreviewDialogProps<T> {
+  open: boolean;
+  type: DatasetType;
+  title: string;
+  fileName: string;
+  existing: T[];
+  incoming: T[];
+  onMerge: (diff: MergeDiff<T>, key: DedupeKey) => void;
+  onReplace: () => void;
+  onCancel: () => void;
+}
+
+const MergePreviewDialog = <T,>({ open, type, title, fileName, existing, incoming, onMerge, onReplace, onCancel }: MergePreviewDialogProps<T>) => {
+  const keyOptions = useMemo(() => getDedupeKeyOptions(type, incoming), [type, incoming]);
+  const [key, setKey] = useState<DedupeKey>(() => loadDedupeKey(type, incoming));
+
+  useEffect(() => {
+    setKey(loadDedupeKey(type, incoming));
+  }, [type, incoming]);
+
+  const diff = useMemo(() => diffDatasets(existing, incoming, key), [existing, incoming, key]);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add {fileName} to your {title.toLowerCase()}?</DialogTitle>
+          <DialogDescription>
+            You already have {existing.length.toLocaleString('en-IN')} records saved. Records with the same key count as duplicates.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Match records on</p>
+            <Select value={key.join()} onValueChange={(value) => setKey(keyOptions.find(option => option.join() === value) || key)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {keyOptions.map(option => (
+                  <SelectItem key={option.join()} value={option.join()}>{describeDedupeKey(option)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="rounded-lg border p-3">
+              <p className="text-2xl font-bold text-success">{diff.added.length.toLocaleString('en-IN')}</p>
+              <p className="text-xs text-muted-foreground">new</p>
+            </div>
+            <div className="rounded-lg border p-3">
+              <p className="text-2xl font-bold">{diff.duplicates.toLocaleString('en-IN')}</p>
+              <p className="text-xs text-muted-foreground">duplicates</p>
+            </div>
+            <div className="rounded-lg border p-3">
+              <p className="text-2xl font-bold text-primary">{diff.changed.length.toLocaleString('en-IN')}</p>
+              <p className="text-xs text-muted-foreground">changed</p>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Merging adds the new records and updates changed ones with values from this file. You can undo it afterwards.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button variant="outline" onClick={onReplace}>Replace saved data</Button>
+          <Button onClick={() => onMerge(diff, key)}>Merge</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MergePreviewDialog;
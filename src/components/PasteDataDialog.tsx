@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { ClipboardPaste } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { DATASET_LABELS, type DatasetType } from '@/lib/data-processing';
+import { classifyFiles } from '@/lib/parse-worker-client';
+import { useToast } from '@/hooks/use-toast';
+
+interface PasteDataDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The pasted text as a file, so it is read, mapped and validated like an upload
+  onPaste: (type: DatasetType, file: File) => void;
+}
+
+// Radix Select cannot use an empty string as an item value
+const AUTO = '__auto__';
+// The .txt extension sends it through delimiter and header row detection
+const PASTED_FILE_NAME = 'Pasted data.txt';
+
+const DATASET_TYPES = Object.keys(DATASET_LABELS) as DatasetType[];
+
+const PasteDataDialog: React.FC<PasteDataDialogProps> = ({ open, onOpenChange, onPaste }) => {
+  const [text, setText] = useState('');
+  const [choice, setChoice] = useState<DatasetType | typeof AUTO>(AUTO);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isUnsure, setIsUnsure] = useState(false);
+  const { toast } = useToast();
+
+  const rows = text.split(/\r\n|\n|\r/).filter(line => line.trim() !== '').length;
+
+  const close = () => {
+    setText('');
+    setChoice(AUTO);
+    setIsUnsure(false);
+    onOpenChange(false);
+  };
+
+  const handleReadClipboard = async () => {
+    try {
+      setText(await navigator.clipboard.readText());
+    } catch {
+      // Browsers block clipboard reads without permission; the textarea still takes Ctrl+V
+      toast({ title: "Couldn't read the clipboard", description: "Click the box and press Ctrl+V (⌘V on Mac) instead" });
+    }
+  };
+
+  const handleSubmit = async () => {
+    const file = new File([text], PASTED_FILE_NAME, { type: 'text/plain' });
+    if (choice !== AUTO) {
+      onPaste(choice, file);
+      close();
+      return;
+    }
+
+    setIsChecking(true);
+    try {
+      const [classification] = await classifyFiles([file]);
+      if (classification?.type) {
+        onPaste(classification.type, file);
+        close();
+      } else {
+        setChoice(classification?.suggested ?? 'sales');
+        setIsUnsure(true);
+      }
+    } catch (error) {
+      console.error('Error reading pasted data:', error);
+      toast({ title: "Could not read the pasted data", description: "Copy the rows again with their header row", variant: "destructive" });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && close()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Paste your data</DialogTitle>
+          <DialogDescription>
+            Copy rows from Google Sheets, Excel or a notes app, including the header row. Columns can be separated by tabs or commas.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          placeholder={'Date\tProduct\tQuantity\tAmount\n01/04/2024\tBlue Kurta\t2\t1200'}
+          className="min-h-[240px] font-mono text-xs"
+          autoFocus
+        />
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <Button variant="outline" size="sm" onClick={handleReadClipboard}>
+            <ClipboardPaste className="w-4 h-4 mr-2" />
+            Paste from clipboard
+          </Button>
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">{rows > 1 ? `${rows - 1} rows · ` : ''}This is</span>
+            <Select value={choice} onValueChange={(value) => setChoice(value as DatasetType | typeof AUTO)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTO}>Work it out for me</SelectItem>
+                {DATASET_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{DATASET_LABELS[type]} data</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        {isUnsure && (
+          <p className="text-sm text-muted-foreground">We couldn't tell which data this is. Check the choice above and continue.</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={rows < 2 || isChecking}>
+            {isChecking ? 'Checking...' : 'Continue'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PasteDataDialog;
@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { type ProposedMerge } from '@/lib/product-master';
+
+interface ProductMergeDialogProps {
+  open: boolean;
+  proposals: ProposedMerge[];
+  onConfirm: (accepted: Set<string>) => void;
+  onCancel: () => void;
+}
+
+const ProductMergeDialog: React.FC<ProductMergeDialogProps> = ({ open, proposals, onConfirm, onCancel }) => {
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    // Only spacing variants start ticked; a changed word, even one letter like Shirt and Skirt, waits for the user
+    setAccepted(new Set(proposals.filter(proposal => proposal.sameLetters).map(proposal => proposal.key)));
+  }, [proposals]);
+
+  const toggle = (key: string, checked: boolean) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Are these the same products?</DialogTitle>
+          <DialogDescription>
+            These names look alike across your files. Ticked groups are counted as one product everywhere; we'll remember your answers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[60vh] overflow-y-auto pr-1">
+          {proposals.map(proposal => (
+            <label key={proposal.key} className="flex items-start gap-3 rounded-lg border p-3 cursor-pointer">
+              <Checkbox
+                checked={accepted.has(proposal.key)}
+                onCheckedChange={(checked) => toggle(proposal.key, checked === true)}
+                className="mt-1"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-1">
+                  {proposal.names.map(name => (
+                    <Badge key={name} variant="outline" className="font-normal">{name}</Badge>
+                  ))}
+                  <ArrowRight className="w-4 h-4 mx-1 text-muted-foreground" />
+                  <span className="font-medium">{proposal.canonical}</span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">{Math.round(proposal.score * 100)}% similar</p>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onConfirm(accepted)}>
+            Merge {accepted.size} of {proposals.length}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProductMergeDialog;
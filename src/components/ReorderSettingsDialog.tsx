@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { type ReorderSettings } from '@/lib/reorder';
+
+interface ReorderSettingsDialogProps {
+  open: boolean;
+  suppliers: string[];
+  settings: ReorderSettings;
+  onSave: (settings: ReorderSettings) => void;
+  onCancel: () => void;
+}
+
+const toNumber = (value: string) => value.trim() === '' ? null : Number(value);
+const isNonNegative = (value: number | null) => value !== null && Number.isFinite(value) && value >= 0;
+
+const ReorderSettingsDialog: React.FC<ReorderSettingsDialogProps> = ({ open, suppliers, settings, onSave, onCancel }) => {
+  // The parent mounts the dialog when it opens, so the form starts from the saved settings each time
+  const [defaultLeadTime, setDefaultLeadTime] = useState(() => String(settings.defaultLeadTimeDays));
+  const [orderCost, setOrderCost] = useState(() => String(settings.orderCost));
+  // Blank means the supplier uses the default lead time
+  const [leadTimes, setLeadTimes] = useState<Record<string, string>>(
+    () => Object.fromEntries(suppliers.map(supplier => [supplier, settings.leadTimeBySupplier[supplier]?.toString() ?? '']))
+  );
+
+  const supplierDays = Object.entries(leadTimes).map(([supplier, value]) => [supplier, toNumber(value)] as const);
+  const isValid = isNonNegative(toNumber(defaultLeadTime))
+    && isNonNegative(toNumber(orderCost))
+    && supplierDays.every(([, days]) => days === null || isNonNegative(days));
+
+  const clearedSuppliers = supplierDays.filter(([, days]) => days === null).map(([supplier]) => supplier);
+  // Suppliers missing from this inventory keep their lead time for the next upload; a cleared field goes back to the default
+  const handleSave = () => {
+    const saved = { ...settings.leadTimeBySupplier };
+    clearedSuppliers.forEach(supplier => delete saved[supplier]);
+    onSave({
+      defaultLeadTimeDays: toNumber(defaultLeadTime),
+      orderCost: toNumber(orderCost),
+      leadTimeBySupplier: { ...saved, ...Object.fromEntries(supplierDays.filter(([, days]) => days !== null)) }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Reorder settings</DialogTitle>
+          <DialogDescription>
+            Lead time is how many days an order takes to arrive. Reorder points and order quantities are worked out from these and how fast each product sells.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="default-lead-time">Usual lead time (days)</Label>
+            <Input id="default-lead-time" type="number" min={0} value={defaultLeadTime} onChange={(event) => setDefaultLeadTime(event.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="order-cost">Cost of placing an order (₹)</Label>
+            <Input id="order-cost" type="number" min={0} value={orderCost} onChange={(event) => setOrderCost(event.target.value)} />
+          </div>
+        </div>
+
+        {suppliers.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Lead time by supplier</p>
+            <div className="max-h-[40vh] overflow-y-auto space-y-2 pr-1">
+              {suppliers.map(supplier => (
+                <div key={supplier} className="flex items-center gap-3">
+                  <span className="text-sm flex-1 truncate" title={supplier}>{supplier}</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={leadTimes[supplier] ?? ''}
+                    onChange={(event) => setLeadTimes(prev => ({ ...prev, [supplier]: event.target.value }))}
+                    placeholder={defaultLeadTime || 'Days'}
+                    aria-label={`Lead time for ${supplier} in days`}
+                    className="w-24 h-8"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!isValid}>Save and recalculate</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReorderSettingsDialog;
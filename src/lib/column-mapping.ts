@@ -0,0 +1,202 @@
+import { DATASET_FIELDS, DATASET_REQUIRED_FIELDS, NUMERIC_FIELDS, coerceNumericValue, coerceRecord, type DatasetType, type RawTable } from './data-processing';
+import { type DateOrder } from './date-parsing';
+
+// Maps each app field to the source header that feeds it (null when unmapped)
+export type ColumnMapping = Record<string, string | null>;
+
+export interface FieldSuggestion {
+  field: string;
+  header: string | null;
+  score: number;
+}
+
+export interface MappingSuggestion {
+  mapping: ColumnMapping;
+  suggestions: FieldSuggestion[];
+  // True when every required field matched a header spelled exactly like it and every
+  // optional field matched a known spelling, so the mapping can be applied without asking
+  exact: boolean;
+}
+
+const MAPPING_STORAGE_KEY = 'vyaaparik:column-mappings';
+const MIN_MATCH_SCORE = 0.7;
+// Optional fields below this are only suggested in the mapping wizard, never applied unasked
+const AUTO_MAP_SCORE = 0.95;
+// Values checked to tell a numeric column from a text one
+const VALUE_SAMPLE_SIZE = 50;
+
+// Header spellings seen in Indian billing, accounting and marketplace exports
+export const FIELD_ALIASES: Record<string, string[]> = {
+  Date: ['date', 'bill date', 'invoice date', 'inv date', 'order date', 'txn date', 'transaction date', 'voucher date', 'review date', 'दिनांक', 'तारीख', 'तिथि'],
+  Product: ['product', 'product name', 'item', 'item name', 'item description', 'particulars', 'description', 'sku', 'sku name', 'stock item', 'वस्तु', 'उत्पाद', 'सामान', 'माल'],
+  Category: ['category', 'group', 'item group', 'stock group', 'department', 'product type', 'श्रेणी', 'वर्ग'],
+  Quantity: ['quantity', 'qty', 'units', 'pcs', 'nos', 'sold qty', 'billed qty', 'मात्रा', 'संख्या'],
+  Amount: ['amount', 'amt', 'net amt', 'net amount', 'total', 'total amount', 'bill amount', 'invoice value', 'sale amount', 'sales value', 'value', 'refund amount', 'refund value', 'राशि', 'रकम', 'कुल'],
+  Customer_Age: ['customer age', 'age', 'buyer age', 'आयु', 'उम्र'],
+  Location: ['location', 'city', 'branch', 'store', 'region', 'state', 'place', 'शहर', 'स्थान'],
+  Channel: ['channel', 'sales channel', 'marketplace', 'platform', 'order source'],
+  Stock: ['stock', 'closing stock', 'stock qty', 'qty in hand', 'on hand', 'available qty', 'balance qty', 'inventory', 'स्टॉक', 'शेष'],
+  Price: ['price', 'rate', 'mrp', 'selling price', 'sale price', 'unit price', 'मूल्य', 'दर', 'कीमत'],
+  Cost_Price: ['cost price', 'cost', 'cp', 'unit cost', 'purchase price', 'purchase rate', 'buying price', 'landing cost', 'landed cost', 'क्रय मूल्य', 'लागत'],
+  Supplier: ['supplier', 'vendor', 'party', 'party name', 'manufacturer', 'brand', 'आपूर्तिकर्ता'],
+  Min_Alert: ['min alert', 'reorder level', 'reorder point', 'min stock', 'minimum stock', 'min qty'],
+  Unit: ['unit', 'uom', 'unit of measure', 'base unit', 'इकाई'],
+  Godown: ['godown', 'warehouse', 'store', 'branch', 'गोदाम'],
+  Rating: ['rating', 'stars', 'star rating', 'score', 'रेटिंग'],
+  Review: ['review', 'review text', 'comment', 'comments', 'feedback', 'remarks', 'समीक्षा', 'टिप्पणी'],
+  Platform: ['platform', 'channel', 'marketplace', 'site'],
+  Reason: ['reason', 'return reason', 'reason for return', 'return type', 'return sub reason', 'customer remarks', 'कारण'],
+  Order_ID: ['order id', 'order no', 'order number', 'sub order no', 'order item id', 'suborder id'],
+  // Tally names the buyer by party ledger rather than an ID
+  Customer_ID: ['customer id', 'customer code', 'cust id', 'customer no', 'customer number', 'buyer id', 'client id', 'party', 'party name', 'ledger name', 'ग्राहक कोड'],
+  Name: ['name', 'customer name', 'full name', 'buyer name', 'client name', 'नाम', 'ग्राहक का नाम'],
+  Phone: ['phone', 'mobile', 'mobile no', 'mobile number', 'phone number', 'contact', 'contact no', 'whatsapp', 'मोबाइल', 'फ़ोन'],
+  City: ['city', 'town', 'location', 'district', 'शहर'],
+  Join_Date: ['join date', 'joined', 'joining date', 'customer since', 'registration date', 'created on', 'first purchase']
+};
+
+export function normalizeHeader(header: string): string {
+  // Keep letters, combining marks (Devanagari matras) and digits; everything else separates words
+  return header
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+export function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 0;
+
+  const editScore = 1 - levenshtein(a, b) / longest;
+
+  // "Net Amt (Rs)" should still match "net amt" even though the edit distance is large
+  const aWords = a.split(' ');
+  const bWords = b.split(' ');
+  const shared = aWords.filter(word => bWords.includes(word)).length;
+  const containsAll = shared === Math.min(aWords.length, bWords.length);
+  const containScore = containsAll ? 0.6 + 0.3 * (shared / Math.max(aWords.length, bWords.length)) : 0;
+
+  return Math.max(editScore, containScore);
+}
+
+export function scoreHeader(header: string, field: string): number {
+  const normalized = normalizeHeader(header);
+  const candidates = [normalizeHeader(field), ...(FIELD_ALIASES[field] || []).map(normalizeHeader)];
+  return Math.max(...candidates.map(candidate => similarity(normalized, candidate)));
+}
+
+// A header like "Customer Name" reads close to Customer_Age, but its values are not numbers
+function fitsValues(header: string, field: string, rows: Record<string, unknown>[]): boolean {
+  if (!NUMERIC_FIELDS.includes(field)) return true;
+  const values = rows.slice(0, VALUE_SAMPLE_SIZE)
+    .map(row => row[header])
+    .filter(value => value !== undefined && value !== null && String(value).trim() !== '');
+  if (values.length === 0) return true;
+  const numbers = values.filter(value => typeof coerceNumericValue(field, value) === 'number').length;
+  return numbers >= values.length / 2;
+}
+
+// rows, when given, rule out numeric fields for columns that hold text
+export function suggestColumnMapping(headers: string[], type: DatasetType, rows: Record<string, unknown>[] = []): MappingSuggestion {
+  const fields = DATASET_FIELDS[type];
+
+  // Score every field/header pair, then assign greedily from the strongest match down
+  const pairs = fields.flatMap(field =>
+    headers
+      .filter(header => fitsValues(header, field, rows))
+      .map(header => ({ field, header, score: header === field ? 1.01 : scoreHeader(header, field) }))
+  );
+  pairs.sort((a, b) => b.score - a.score);
+
+  const mapping: ColumnMapping = Object.fromEntries(fields.map(field => [field, null]));
+  const scores: Record<string, number> = {};
+  const usedHeaders = new Set<string>();
+
+  pairs.forEach(({ field, header, score }) => {
+    if (score < MIN_MATCH_SCORE || mapping[field] !== null || usedHeaders.has(header)) return;
+    mapping[field] = header;
+    scores[field] = Math.min(score, 1);
+    usedHeaders.add(header);
+  });
+
+  const suggestions = fields.map(field => ({ field, header: mapping[field], score: scores[field] || 0 }));
+  const required = DATASET_REQUIRED_FIELDS[type];
+  const exact = required.every(field => mapping[field] === field)
+    && fields.every(field => required.includes(field) || mapping[field] === null || scores[field] >= AUTO_MAP_SCORE);
+
+  return { mapping, suggestions, exact };
+}
+
+export function isMappingComplete(mapping: ColumnMapping, type: DatasetType): boolean {
+  return DATASET_REQUIRED_FIELDS[type].every(field => Boolean(mapping[field]));
+}
+
+// Files from the same billing tool share a header layout, so that layout identifies the source
+export function getSourceKey(headers: string[], type: DatasetType): string {
+  return `${type}:${headers.map(normalizeHeader).sort().join('|')}`;
+}
+
+function readSavedMappings(): Record<string, ColumnMapping> {
+  try {
+    return JSON.parse(localStorage.getItem(MAPPING_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function loadSavedMapping(headers: string[], type: DatasetType): ColumnMapping | null {
+  const saved = readSavedMappings()[getSourceKey(headers, type)];
+  if (!saved) return null;
+
+  // Ignore a saved mapping that points at headers this file no longer has
+  const stillValid = Object.values(saved).every(header => header === null || headers.includes(header));
+  return stillValid && isMappingComplete(saved, type) ? saved : null;
+}
+
+export function saveMapping(headers: string[], type: DatasetType, mapping: ColumnMapping): void {
+  try {
+    const saved = readSavedMappings();
+    saved[getSourceKey(headers, type)] = mapping;
+    localStorage.setItem(MAPPING_STORAGE_KEY, JSON.stringify(saved));
+  } catch (error) {
+    console.warn('Could not save column mapping:', error);
+  }
+}
+
+export function applyColumnMapping<T>(table: RawTable, mapping: ColumnMapping, dateOrders: Record<string, DateOrder> = {}): T[] {
+  const mappedHeaders = new Set(Object.values(mapping).filter(Boolean));
+
+  return table.rows.map(row => {
+    const record: Record<string, unknown> = {};
+
+    // Carry unmapped columns through untouched so nothing in the file is lost
+    Object.entries(row).forEach(([header, value]) => {
+      if (!mappedHeaders.has(header)) record[header] = value;
+    });
+
+    Object.entries(mapping).forEach(([field, header]) => {
+      if (header) record[field] = row[header];
+    });
+
+    return coerceRecord(record, dateOrders) as T;
+  });
+}
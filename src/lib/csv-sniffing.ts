@@ -0,0 +1,180 @@
+import Papa from 'papaparse';
+import { DATASET_LABELS, type DatasetType } from './data-processing';
+import { suggestColumnMapping } from './column-mapping';
+
+export type TextEncodingName = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+// How to read a delimited text file; headerRow counts physical lines from 0
+export interface CsvFormat {
+  encoding: TextEncodingName;
+  delimiter: string;
+  headerRow: number;
+}
+
+export interface CsvSniff {
+  format: CsvFormat;
+  // First lines of the file split with the format, title rows included
+  lines: string[][];
+  // False when part of the guess is shaky enough that the user should look at it
+  confident: boolean;
+}
+
+export const DEFAULT_CSV_FORMAT: CsvFormat = { encoding: 'utf-8', delimiter: ',', headerRow: 0 };
+
+export const ENCODING_OPTIONS: Array<{ encoding: TextEncodingName; label: string }> = [
+  { encoding: 'utf-8', label: 'UTF-8' },
+  { encoding: 'utf-16le', label: 'UTF-16 (Excel "Unicode text")' },
+  { encoding: 'utf-16be', label: 'UTF-16 big-endian' },
+  { encoding: 'windows-1252', label: 'Windows-1252 (older Excel and billing software)' }
+];
+
+export const DELIMITER_OPTIONS: Array<{ delimiter: string; label: string }> = [
+  { delimiter: ',', label: 'Comma' },
+  { delimiter: ';', label: 'Semicolon' },
+  { delimiter: '\t', label: 'Tab' },
+  { delimiter: '|', label: 'Pipe' }
+];
+
+// Enough for the title rows, the header and a few dozen data rows
+export const SNIFF_BYTES = 64 * 1024;
+const SNIFF_LINES = 30;
+const DATASET_TYPES = Object.keys(DATASET_LABELS) as DatasetType[];
+
+export function isDelimitedTextFile(file: File): boolean {
+  return /\.(csv|tsv|txt)$/i.test(file.name);
+}
+
+// Text the app expects in a business export: Latin, Devanagari, the rupee sign and common punctuation
+function isPlausibleChar(code: number): boolean {
+  return code === 0x09 || code === 0x0a || code === 0x0d ||
+    (code >= 0x20 && code <= 0x7e) ||
+    (code >= 0xa0 && code <= 0xff) ||
+    (code >= 0x900 && code <= 0x97f) ||
+    (code >= 0x2000 && code <= 0x206f) ||
+    code === 0x20b9;
+}
+
+const isControlChar = (code: number) => code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d;
+
+function shareOf(text: string, test: (code: number) => boolean): number {
+  if (text.length === 0) return 0;
+  let matching = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (test(text.charCodeAt(i))) matching++;
+  }
+  return matching / text.length;
+}
+
+function decodeUtf8Strict(bytes: Uint8Array): string | null {
+  // A cut through a multi-byte character at the end of the sample is not an error
+  for (let trim = 0; trim < 4 && trim < bytes.length; trim++) {
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, bytes.length - trim));
+    } catch {
+      // try a shorter sample
+    }
+  }
+  return null;
+}
+
+/**
+ * Guess the text encoding from the first bytes of a file. A byte order mark
+ * settles it; otherwise UTF-8 is tried strictly, then UTF-16 in both byte
+ * orders (Devanagari in UTF-16 has no zero bytes, so the decoded text is
+ * judged instead), and Windows-1252 is the fallback.
+ */
+export function detectEncoding(bytes: Uint8Array): { encoding: TextEncodingName; fromBom: boolean } {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: 'utf-8', fromBom: true };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', fromBom: true };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'utf-16be', fromBom: true };
+
+  const utf8 = decodeUtf8Strict(bytes);
+  if (utf8 !== null && shareOf(utf8, isControlChar) <= 0.01) {
+    return { encoding: 'utf-8', fromBom: false };
+  }
+
+  const even = bytes.subarray(0, bytes.length - (bytes.length % 2));
+  const utf16 = (['utf-16le', 'utf-16be'] as const)
+    .map(encoding => ({ encoding, score: shareOf(new TextDecoder(encoding).decode(even), isPlausibleChar) }))
+    .sort((a, b) => b.score - a.score)[0];
+  if (utf16.score > 0.95) return { encoding: utf16.encoding, fromBom: false };
+
+  return { encoding: 'windows-1252', fromBom: false };
+}
+
+export function decodeText(bytes: Uint8Array, encoding: TextEncodingName): string {
+  return new TextDecoder(encoding).decode(bytes);
+}
+
+export function splitLines(text: string, delimiter: string): string[][] {
+  return text.split(/\r\n|\n|\r/).map(line =>
+    line === '' ? [] : (Papa.parse<string[]>(line, { delimiter }).data[0] || []).map(cell => cell.trim())
+  );
+}
+
+function mostCommon(values: number[]): { value: number; count: number } {
+  const counts = new Map<number, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  let best = { value: 0, count: 0 };
+  counts.forEach((count, value) => {
+    if (count > best.count || (count === best.count && value > best.value)) best = { value, count };
+  });
+  return best;
+}
+
+/**
+ * The delimiter that splits most lines into the same number of cells. Title
+ * rows above the header split differently, so consistency beats raw counts.
+ */
+export function detectDelimiter(text: string): { delimiter: string; ambiguous: boolean } {
+  const lines = text.split(/\r\n|\n|\r/).filter(line => line.trim() !== '').slice(0, SNIFF_LINES);
+  const scored = DELIMITER_OPTIONS.map(({ delimiter }) => {
+    const widths = lines.map(line => (Papa.parse<string[]>(line, { delimiter }).data[0] || []).length);
+    const common = mostCommon(widths.filter(width => width > 1));
+    return { delimiter, score: common.count * Math.min(common.value, 10) };
+  }).sort((a, b) => b.score - a.score);
+
+  if (scored[0].score === 0) return { delimiter: ',', ambiguous: false };
+  return { delimiter: scored[0].delimiter, ambiguous: scored[1].score >= scored[0].score * 0.8 };
+}
+
+const isNumberLike = (cell: string) => /^[-+₹\d.,\s()%]+$/.test(cell) && /\d/.test(cell);
+
+/**
+ * Find the real header below any report title rows, e.g. "ABC Traders — Sales
+ * Register FY24". The row naming the most known fields wins; without any known
+ * field names, the first all-text row about as wide as the data below it.
+ */
+export function detectHeaderRow(lines: string[][], type?: DatasetType): number {
+  const filled = lines.map(cells => cells.filter(cell => cell !== ''));
+  const dataWidth = mostCommon(filled.map(cells => cells.length).filter(width => width > 1)).value;
+  const candidates = filled
+    .map((cells, index) => ({ cells, index }))
+    .filter(({ cells }) => cells.length >= Math.max(2, Math.ceil(dataWidth * 0.6)) && cells.every(cell => !isNumberLike(cell)));
+  if (candidates.length === 0) return 0;
+
+  const matches = candidates.map(({ cells, index }) => ({
+    index,
+    // Before the dataset is known, any dataset's field names count
+    known: (type ? [type] : DATASET_TYPES)
+      .reduce((sum, dataset) => sum + Object.values(suggestColumnMapping(cells, dataset).mapping).filter(Boolean).length, 0)
+  }));
+  const best = matches.reduce((top, entry) => entry.known > top.known ? entry : top, matches[0]);
+  return best.index;
+}
+
+export function sniffCsv(bytes: Uint8Array, type?: DatasetType, format?: CsvFormat): CsvSniff {
+  const sample = bytes.subarray(0, SNIFF_BYTES);
+  if (format) {
+    return { format, lines: splitLines(decodeText(sample, format.encoding), format.delimiter).slice(0, SNIFF_LINES), confident: true };
+  }
+
+  const { encoding, fromBom } = detectEncoding(sample);
+  const text = decodeText(sample, encoding);
+  const { delimiter, ambiguous } = detectDelimiter(text);
+  const lines = splitLines(text, delimiter).slice(0, SNIFF_LINES);
+  const headerRow = detectHeaderRow(lines, type);
+
+  const confident = headerRow === 0 && !ambiguous && (fromBom || encoding === 'utf-8');
+  return { format: { encoding, delimiter, headerRow }, lines, confident };
+}
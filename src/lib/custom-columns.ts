@@ -0,0 +1,157 @@
+import { DATASET_FIELDS, type DatasetType } from './data-processing';
+import { parseIndianNumber } from './number-parsing';
+import { detectDateOrder, normalizeDate } from './date-parsing';
+
+export type CustomColumnType = 'number' | 'date' | 'category' | 'text';
+
+// A column from the user's file that the app has no field for, e.g. Payment_Mode or Discount
+export interface CustomColumn {
+  dataset: DatasetType;
+  name: string;
+  type: CustomColumnType;
+}
+
+export interface CustomColumnSummary extends CustomColumn {
+  // Rows with a value in this column
+  filled: number;
+  total?: number;
+  average?: number;
+  min?: number;
+  max?: number;
+  from?: string;
+  to?: string;
+  // Category columns: the most common values with their share of the dataset's main measure
+  values?: Array<{ value: string; rows: number; revenue?: number; stock?: number; averageRating?: number }>;
+  distinct?: number;
+  examples?: string[];
+}
+
+type Row = Record<string, unknown>;
+
+// Columns the app fills in itself or reads elsewhere, e.g. the GST summary
+const BUILT_IN_FIELDS = ['Product_ID', 'Original_Product', 'Source', 'Taxable_Value', 'GST_Rate', 'IGST', 'CGST', 'SGST', 'Cess'];
+
+const TYPE_SAMPLE_SIZE = 1000;
+const MAX_CATEGORIES = 50;
+const TOP_VALUES = 10;
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+// Evenly spaced rows, so a file sorted by one column still shows all its kinds of values
+function sampleRows(rows: Row[]): Row[] {
+  if (rows.length <= TYPE_SAMPLE_SIZE) return rows;
+  const step = rows.length / TYPE_SAMPLE_SIZE;
+  return Array.from({ length: TYPE_SAMPLE_SIZE }, (_, index) => rows[Math.floor(index * step)]);
+}
+
+export function detectColumnType(values: unknown[]): CustomColumnType {
+  const filled = values.filter(value => !isBlank(value));
+  if (filled.length === 0) return 'text';
+  const share = (test: (value: unknown) => boolean) => filled.filter(test).length / filled.length;
+
+  if (share(value => typeof value === 'number' || parseIndianNumber(value).value !== null) >= 0.9) return 'number';
+  // Dates need a separator; bare digits were already taken as numbers
+  if (share(value => /\D/.test(String(value)) && normalizeDate(value) !== null) >= 0.9) return 'date';
+
+  const distinct = new Set(filled.map(value => String(value).trim().toLowerCase())).size;
+  return distinct <= MAX_CATEGORIES && distinct <= filled.length * 0.5 ? 'category' : 'text';
+}
+
+export function detectCustomColumns(rows: Row[], dataset: DatasetType): CustomColumn[] {
+  const builtIn = new Set([...DATASET_FIELDS[dataset], ...BUILT_IN_FIELDS]);
+  const names = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(name => {
+    if (!builtIn.has(name)) names.add(name);
+  }));
+
+  const sample = sampleRows(rows);
+  return Array.from(names).map(name => ({ dataset, name, type: detectColumnType(sample.map(row => row[name])) }));
+}
+
+/**
+ * Type the custom columns of a dataset: numbers and dates arrive from CSVs as
+ * text, so they are converted here the same way the built-in fields are.
+ */
+export function coerceCustomColumns<T>(rows: T[], dataset: DatasetType): T[] {
+  const records = rows as unknown as Row[];
+  const columns = detectCustomColumns(records, dataset).filter(column => column.type === 'number' || column.type === 'date');
+  if (columns.length === 0) return rows;
+
+  const dateOrders = Object.fromEntries(columns
+    .filter(column => column.type === 'date')
+    .map(column => [column.name, detectDateOrder(records.map(row => row[column.name])).order]));
+
+  return records.map(row => {
+    const record = { ...row };
+    columns.forEach(({ name, type }) => {
+      const value = record[name];
+      if (isBlank(value) || typeof value === 'number') return;
+      const converted = type === 'number' ? parseIndianNumber(value).value : normalizeDate(value, dateOrders[name]);
+      if (converted !== null) record[name] = converted;
+    });
+    return record as T;
+  });
+}
+
+function summarizeColumn(rows: Row[], column: CustomColumn): CustomColumnSummary {
+  const filledRows = rows.filter(row => !isBlank(row[column.name]));
+  const summary: CustomColumnSummary = { ...column, filled: filledRows.length };
+
+  if (column.type === 'number') {
+    const numbers = filledRows.map(row => row[column.name]).filter((value): value is number => typeof value === 'number');
+    if (numbers.length > 0) {
+      summary.total = numbers.reduce((sum, value) => sum + value, 0);
+      summary.average = summary.total / numbers.length;
+      summary.min = numbers.reduce((min, value) => Math.min(min, value), Infinity);
+      summary.max = numbers.reduce((max, value) => Math.max(max, value), -Infinity);
+    }
+  } else if (column.type === 'date') {
+    const dates = filledRows.map(row => String(row[column.name])).sort();
+    summary.from = dates[0];
+    summary.to = dates[dates.length - 1];
+  } else if (column.type === 'category') {
+    const groups = new Map<string, Row[]>();
+    filledRows.forEach(row => {
+      const value = String(row[column.name]).trim();
+      const group = groups.get(value) || [];
+      group.push(row);
+      groups.set(value, group);
+    });
+    const total = (group: Row[], field: string) => group.reduce((sum, row) => sum + (Number(row[field]) || 0), 0);
+    summary.values = Array.from(groups.entries())
+      .map(([value, group]) => ({
+        value,
+        rows: group.length,
+        ...(column.dataset === 'sales' ? { revenue: total(group, 'Amount') } : {}),
+        ...(column.dataset === 'inventory' ? { stock: total(group, 'Stock') } : {}),
+        ...(column.dataset === 'reviews' ? { averageRating: total(group, 'Rating') / group.length } : {})
+      }))
+      .sort((a, b) => (b.revenue ?? b.rows) - (a.revenue ?? a.rows))
+      .slice(0, TOP_VALUES);
+  } else {
+    const distinct = Array.from(new Set(filledRows.map(row => String(row[column.name]).trim())));
+    summary.distinct = distinct.length;
+    summary.examples = distinct.slice(0, 3);
+  }
+  return summary;
+}
+
+export function summarizeCustomColumns(datasets: Partial<Record<DatasetType, Row[]>>): CustomColumnSummary[] {
+  return (Object.entries(datasets) as Array<[DatasetType, Row[]]>).flatMap(([dataset, rows]) =>
+    detectCustomColumns(rows, dataset).map(column => summarizeColumn(rows, column))
+  );
+}
+
+// One line per column for the AI, e.g. "Payment_Mode (sales, category: UPI, Cash, Card)"
+export function describeCustomColumns(columns: CustomColumnSummary[]): string[] {
+  return columns.map(column => {
+    const detail = column.type === 'category'
+      ? `: ${(column.values || []).map(entry => entry.value).join(', ')}`
+      : column.type === 'number' && column.min !== undefined
+        ? ` from ${column.min} to ${column.max}`
+        : column.type === 'date' && column.from
+          ? ` from ${column.from} to ${column.to}`
+          : '';
+    return `${column.name} (${column.dataset}, ${column.type}${detail})`;
+  });
+}
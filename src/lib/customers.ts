@@ -0,0 +1,121 @@
+import { type CustomerData, type SalesData } from './data-processing';
+import { isReturnSale } from './returns';
+
+export interface CustomerSummary {
+  // Customers in the master, or seen on sales when no master was uploaded
+  totalCustomers: number;
+  // Share of sales revenue tagged with a Customer_ID; the figures below cover only those sales
+  identifiedRevenueShare: number | null;
+  buyingCustomers: number;
+  repeatCustomers: number;
+  // Buyers with two or more separate purchases
+  repeatPurchaseRate: number | null;
+  // First purchases vs every later one; a buyer who joined before the data starts counts as returning throughout
+  newCustomerRevenue: number;
+  returningCustomerRevenue: number;
+  newCustomers: number;
+  returningCustomers: number;
+  // Master customers with no purchase in the sales data
+  inactiveCustomers: number | null;
+  topCustomers: Array<{ customerId: string; name?: string; city?: string; revenue: number; purchases: number; lastPurchase: string }>;
+}
+
+interface Buyer {
+  customerId: string;
+  // The ID as first written, for display
+  label: string;
+  revenue: number;
+  // One entry per order, invoice or voucher; per day when the file has no order numbers
+  purchases: Map<string, { date: string; revenue: number }>;
+}
+
+const TOP_CUSTOMERS = 10;
+
+// Tally party names and typed IDs differ only in case and spacing, e.g. "Sharma Traders " and "SHARMA TRADERS"
+export function normalizeCustomerId(value: unknown): string {
+  return String(value ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function getPurchaseKey(sale: SalesData): string {
+  const order = sale.Order_ID ?? sale.Invoice_No ?? sale.Voucher_No;
+  return order !== undefined && order !== '' ? String(order) : sale.Date.slice(0, 10);
+}
+
+/**
+ * Repeat purchase rate, new vs returning revenue and top customers. Sales are
+ * linked to the master by Customer_ID, or by name when the sales file (e.g. a
+ * Tally day book) names the party instead.
+ */
+export function summarizeCustomers(salesData: SalesData[], customerData: CustomerData[]): CustomerSummary | undefined {
+  const orders = salesData.filter(sale => !isReturnSale(sale));
+  const tagged = orders.filter(sale => normalizeCustomerId(sale.Customer_ID) !== '');
+  if (tagged.length === 0 && customerData.length === 0) return undefined;
+
+  const master = new Map<string, CustomerData>();
+  customerData.forEach(customer => {
+    master.set(normalizeCustomerId(customer.Customer_ID), customer);
+    if (customer.Name && !master.has(normalizeCustomerId(customer.Name))) master.set(normalizeCustomerId(customer.Name), customer);
+  });
+
+  const buyers = new Map<string, Buyer>();
+  tagged.forEach(sale => {
+    const raw = normalizeCustomerId(sale.Customer_ID);
+    const customerId = master.has(raw) ? normalizeCustomerId(master.get(raw).Customer_ID) : raw;
+    const buyer = buyers.get(customerId) || { customerId, label: String(sale.Customer_ID).trim(), revenue: 0, purchases: new Map() };
+    const key = getPurchaseKey(sale);
+    const purchase = buyer.purchases.get(key) || { date: sale.Date, revenue: 0 };
+    purchase.revenue += sale.Amount || 0;
+    if (sale.Date < purchase.date) purchase.date = sale.Date;
+    buyer.purchases.set(key, purchase);
+    buyer.revenue += sale.Amount || 0;
+    buyers.set(customerId, buyer);
+  });
+
+  let newCustomerRevenue = 0;
+  let returningCustomerRevenue = 0;
+  let newCustomers = 0;
+  let repeatCustomers = 0;
+  buyers.forEach(buyer => {
+    const purchases = Array.from(buyer.purchases.values()).sort((a, b) => a.date.localeCompare(b.date));
+    const joined = master.get(buyer.customerId)?.Join_Date;
+    const isNew = !joined || joined.slice(0, 10) >= purchases[0].date.slice(0, 10);
+    if (purchases.length > 1) repeatCustomers++;
+    if (isNew) newCustomers++;
+
+    const first = isNew ? purchases[0].revenue : 0;
+    newCustomerRevenue += first;
+    returningCustomerRevenue += buyer.revenue - first;
+  });
+
+  const totalRevenue = orders.reduce((sum, sale) => sum + (sale.Amount || 0), 0);
+  const taggedRevenue = tagged.reduce((sum, sale) => sum + (sale.Amount || 0), 0);
+  const masterIds = new Set(customerData.map(customer => normalizeCustomerId(customer.Customer_ID)));
+
+  return {
+    totalCustomers: customerData.length > 0 ? masterIds.size : buyers.size,
+    identifiedRevenueShare: orders.length > 0 && totalRevenue !== 0 ? taggedRevenue / totalRevenue : null,
+    buyingCustomers: buyers.size,
+    repeatCustomers,
+    repeatPurchaseRate: buyers.size > 0 ? repeatCustomers / buyers.size : null,
+    newCustomerRevenue,
+    returningCustomerRevenue,
+    newCustomers,
+    returningCustomers: buyers.size - newCustomers,
+    inactiveCustomers: customerData.length > 0 ? Array.from(masterIds).filter(id => !buyers.has(id)).length : null,
+    topCustomers: Array.from(buyers.values())
+      .sort((a, b) => b.revenue - a.revenue)
+      .slice(0, TOP_CUSTOMERS)
+      .map(buyer => {
+        const customer = master.get(buyer.customerId);
+        const dates = Array.from(buyer.purchases.values()).map(purchase => purchase.date).sort();
+        return {
+          customerId: customer ? String(customer.Customer_ID) : buyer.label,
+          ...(customer?.Name ? { name: customer.Name } : {}),
+          ...(customer?.City ? { city: customer.City } : {}),
+          revenue: buyer.revenue,
+          purchases: buyer.purchases.size,
+          lastPurchase: dates[dates.length - 1]
+        };
+      })
+  };
+}
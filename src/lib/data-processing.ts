@@ -1,40 +1,230 @@
 import Papa from 'papaparse';
+import { LOCALE_NUMERIC_FIELDS, parseIndianNumber } from './number-parsing';
+import { normalizeDate, type DateOrder } from './date-parsing';
+import { validateRows, summarizeValidation, type ValidationReport } from './schema-validation';
+import { coerceCustomColumns, summarizeCustomColumns, type CustomColumnSummary } from './custom-columns';
+import { assignProductIds, buildProductMaster, type ProductDecisions } from './product-master';
+import { isReturnSale, summarizeReturns, type ReturnsSummary } from './returns';
+import { summarizeCustomers, type CustomerSummary } from './customers';
+import { summarizeMargins, type MarginSummary } from './margins';
+import { summarizeTrends, type SalesTrends } from './time-series';
+import { summarizeForecast, type DemandForecast } from './forecasting';
+import { summarizeFestivals, type FestivalSummary } from './festival-calendar';
+import { DEFAULT_REORDER_SETTINGS, summarizeReorders, type ReorderSettings, type ReorderSummary } from './reorder';
 
 export interface SalesData {
+  // IST calendar day (YYYY-MM-DD), or YYYY-MM-DDTHH:mm:ss+05:30 when the source has a time
   Date: string;
   Product: string;
+  // Canonical product from the product master, shared by all three datasets
+  Product_ID?: string;
   Category: string;
   Quantity: number;
   Amount: number;
   Customer_Age?: number;
+  // Links the sale to the customer master; a Tally party name works too
+  Customer_ID?: string;
   Location?: string;
+  // Marketplace or store the order came through, e.g. Amazon
+  Channel?: string;
+  // Tax breakdown, present when sales come from a GSTR-1 return
+  Taxable_Value?: number;
+  GST_Rate?: number;
+  IGST?: number;
+  CGST?: number;
+  SGST?: number;
+  Cess?: number;
+  // File name or branch label the row was uploaded from
+  Source?: string;
+  // Any other column from the file, e.g. Payment_Mode, typed by custom-columns
+  [column: string]: unknown;
 }
 
 export interface InventoryData {
   Product: string;
+  Product_ID?: string;
   Category: string;
   Stock: number;
   Price: number;
+  // What one unit costs the business, for margins; Price is what it sells for
+  Cost_Price?: number;
   Supplier?: string;
   Min_Alert?: number;
+  Unit?: string;
+  // Warehouse or store the stock sits in, as named in Tally
+  Godown?: string;
+  Source?: string;
+  [column: string]: unknown;
 }
 
 export interface ReviewData {
+  // Normalized to IST like SalesData.Date
   Date: string;
   Rating: number;
   Review: string;
   Product: string;
+  Product_ID?: string;
   Platform?: string;
+  Source?: string;
+  [column: string]: unknown;
 }
 
+export interface ReturnData {
+  // Day the return came back, normalized to IST like SalesData.Date
+  Date: string;
+  Product: string;
+  Product_ID?: string;
+  Quantity: number;
+  // Refunded value; priced from the product's sales when the file has none
+  Amount?: number;
+  // As written in the file, e.g. "Size too small" or CR-DEFECTIVE; grouped into reason codes for the summary
+  Reason?: string;
+  Category?: string;
+  Order_ID?: string;
+  Channel?: string;
+  Source?: string;
+  [column: string]: unknown;
+}
+
+export interface CustomerData {
+  Customer_ID: string;
+  Name?: string;
+  Phone?: string;
+  City?: string;
+  // First became a customer, normalized to IST like SalesData.Date
+  Join_Date?: string;
+  Source?: string;
+  [column: string]: unknown;
+}
+
+// Every dataset's rows, as handed from the upload screen to the chat
+export interface BusinessData {
+  sales: SalesData[];
+  inventory: InventoryData[];
+  reviews: ReviewData[];
+  returns: ReturnData[];
+  customers: CustomerData[];
+}
+
+// Sections whose dataset was not uploaded are null ("not available"), never zero.
+// Revenue and orders count sales only; the returns section nets refunds off against them.
 export interface BusinessSummary {
-  totalRevenue: number;
-  totalOrders: number;
-  averageOrderValue: number;
-  topProducts: Array<{ product: string; revenue: number }>;
-  lowStockItems: Array<{ product: string; stock: number }>;
-  averageRating: number;
-  sentimentScore: number;
+  availableDatasets: DatasetType[];
+  totalRevenue: number | null;
+  totalOrders: number | null;
+  averageOrderValue: number | null;
+  topProducts: Array<{ product: string; revenue: number }> | null;
+  lowStockItems: Array<{ product: string; stock: number }> | null;
+  averageRating: number | null;
+  sentimentScore: number | null;
+  channelRevenue?: Array<{ channel: string; revenue: number; orders: number }>;
+  gst?: GstSummary;
+  // Side-by-side figures per branch or file, when the data came from more than one
+  sourceBreakdown?: SourceSummary[];
+  // Columns beyond the app's own fields, with totals or per-value breakdowns
+  customColumns?: CustomColumnSummary[];
+  // Gross vs net revenue, return rates and reasons, when returns were uploaded or sales hold credit lines
+  returns?: ReturnsSummary;
+  // Repeat purchases, new vs returning revenue and top buyers, when sales carry a Customer_ID or a customer master was uploaded
+  customers?: CustomerSummary;
+  // Gross profit and margins, when inventory carries cost prices
+  margins?: MarginSummary;
+  // Daily, weekly and monthly series with period-over-period growth, when sales carry dates
+  trends?: SalesTrends;
+  // Weekly demand forecasts with prediction intervals, when sales cover enough weeks
+  forecast?: DemandForecast;
+  // Sales during each festival, wedding season and end of season sale the data covers, against the weeks before
+  festivals?: FestivalSummary;
+  // Days of cover, reorder points and order quantities from sales velocity, when stock and dated sales are both known
+  reorder?: ReorderSummary;
+}
+
+export interface SourceSummary {
+  source: string;
+  revenue: number | null;
+  orders: number | null;
+  lowStockItems: number | null;
+  averageRating: number | null;
+}
+
+export interface GstSummary {
+  taxableValue: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+  cess: number;
+  byRate: Array<{ rate: number; taxableValue: number; tax: number }>;
+}
+
+export type DatasetType = 'sales' | 'inventory' | 'reviews' | 'returns' | 'customers';
+
+export const DATASET_LABELS: Record<DatasetType, string> = {
+  sales: 'Sales',
+  inventory: 'Inventory',
+  reviews: 'Reviews',
+  returns: 'Returns',
+  customers: 'Customers'
+};
+
+export function getMissingDatasets(summary: BusinessSummary): DatasetType[] {
+  return (Object.keys(DATASET_LABELS) as DatasetType[]).filter(type => !summary.availableDatasets.includes(type));
+}
+
+export interface RawTable {
+  headers: string[];
+  rows: Record<string, unknown>[];
+}
+
+export const NUMERIC_FIELDS = ['Quantity', 'Amount', 'Stock', 'Price', 'Cost_Price', 'Rating', 'Customer_Age', 'Min_Alert'];
+
+export const DATE_FIELDS = ['Date', 'Join_Date'];
+
+export const SALES_REQUIRED_FIELDS = ['Date', 'Product', 'Quantity', 'Amount'];
+export const INVENTORY_REQUIRED_FIELDS = ['Product', 'Stock', 'Price'];
+export const REVIEW_REQUIRED_FIELDS = ['Date', 'Rating', 'Review', 'Product'];
+export const RETURN_REQUIRED_FIELDS = ['Date', 'Product', 'Quantity'];
+export const CUSTOMER_REQUIRED_FIELDS = ['Customer_ID', 'Name'];
+
+export const DATASET_REQUIRED_FIELDS: Record<DatasetType, string[]> = {
+  sales: SALES_REQUIRED_FIELDS,
+  inventory: INVENTORY_REQUIRED_FIELDS,
+  reviews: REVIEW_REQUIRED_FIELDS,
+  returns: RETURN_REQUIRED_FIELDS,
+  customers: CUSTOMER_REQUIRED_FIELDS
+};
+
+// Every field the app understands per dataset, required ones first
+export const DATASET_FIELDS: Record<DatasetType, string[]> = {
+  sales: [...SALES_REQUIRED_FIELDS, 'Category', 'Customer_Age', 'Customer_ID', 'Location', 'Channel'],
+  inventory: [...INVENTORY_REQUIRED_FIELDS, 'Cost_Price', 'Category', 'Supplier', 'Min_Alert', 'Unit', 'Godown'],
+  reviews: [...REVIEW_REQUIRED_FIELDS, 'Platform'],
+  returns: [...RETURN_REQUIRED_FIELDS, 'Amount', 'Reason', 'Category', 'Order_ID', 'Channel'],
+  customers: [...CUSTOMER_REQUIRED_FIELDS, 'Phone', 'City', 'Join_Date']
+};
+
+// Convert numeric fields, leaving unparseable values as-is for validation to report
+export function coerceNumericValue(header: string, value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+
+  if (LOCALE_NUMERIC_FIELDS.includes(header)) {
+    return parseIndianNumber(value).value ?? value;
+  }
+  if (NUMERIC_FIELDS.includes(header)) {
+    const num = parseFloat(value);
+    return isNaN(num) ? value : num;
+  }
+  return value;
+}
+
+// Type numeric fields and normalize date fields to IST, using the detected day/month order per column
+export function coerceRecord(row: Record<string, unknown>, dateOrders: Record<string, DateOrder> = {}): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  Object.entries(row).forEach(([header, value]) => {
+    record[header] = DATE_FIELDS.includes(header)
+      ? normalizeDate(value, dateOrders[header]) ?? value
+      : coerceNumericValue(header, value);
+  });
+  return record;
 }
 
 export function parseCsvFile<T>(file: File): Promise<T[]> {
@@ -43,12 +233,7 @@ export function parseCsvFile<T>(file: File): Promise<T[]> {
       header: true,
       skipEmptyLines: true,
       transform: (value, header) => {
-        // Convert numeric fields
-        if (typeof header === 'string' && ['Quantity', 'Amount', 'Stock', 'Price', 'Rating', 'Customer_Age', 'Min_Alert'].includes(header)) {
-          const num = parseFloat(value);
-          return isNaN(num) ? value : num;
-        }
-        return value;
+        return typeof header === 'string' ? coerceNumericValue(header, value) : value;
       },
       complete: (results) => {
         if (results.errors.length > 0) {
@@ -63,27 +248,96 @@ export function parseCsvFile<T>(file: File): Promise<T[]> {
   });
 }
 
+// Rows are grouped by canonical product once the product master has run, by raw name before
+export function getProductKey(row: { Product: string; Product_ID?: string }): string {
+  return row.Product_ID || row.Product;
+}
+
+export function getSources(rows: Array<{ Source?: string }>): string[] {
+  return Array.from(new Set(rows.map(row => row.Source).filter(Boolean))).sort();
+}
+
+// Narrow the analysis to one branch (Source) or one value of a category column, e.g. Payment_Mode = UPI
+export interface DataFilter {
+  column: string;
+  value: string;
+}
+
+/**
+ * Keep the rows matching the filter. A dataset without the column, or one
+ * that came from a single branch, is shared by every value and kept whole.
+ */
+export function filterRows<T extends Record<string, unknown>>(rows: T[], filter: DataFilter): T[] {
+  const values = new Set(rows.map(row => row[filter.column]).filter(value => value !== undefined && value !== '').map(value => String(value).trim()));
+  if (!values.has(filter.value) && values.size <= 1) return rows;
+  return rows.filter(row => String(row[filter.column] ?? '').trim() === filter.value);
+}
+
+// Link products across datasets and type the extra columns, after an upload or an edit in the data grid
+export function prepareBusinessData(data: BusinessData, decisions: ProductDecisions): BusinessData {
+  const products = buildProductMaster({
+    sales: data.sales.map(row => row.Product),
+    inventory: data.inventory.map(row => row.Product),
+    reviews: data.reviews.map(row => row.Product),
+    returns: data.returns.map(row => row.Product)
+  }, decisions);
+  return {
+    sales: coerceCustomColumns(assignProductIds(data.sales, products), 'sales'),
+    inventory: coerceCustomColumns(assignProductIds(data.inventory, products), 'inventory'),
+    reviews: coerceCustomColumns(assignProductIds(data.reviews, products), 'reviews'),
+    returns: coerceCustomColumns(assignProductIds(data.returns, products), 'returns'),
+    customers: coerceCustomColumns(data.customers, 'customers')
+  };
+}
+
+// Sections without data are left out rather than set to undefined, which Firestore refuses to store
+function optionalSections<T extends object>(sections: T): Partial<T> {
+  return Object.fromEntries(Object.entries(sections).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+export function summarizeBusinessData(data: BusinessData, reorderSettings: ReorderSettings = DEFAULT_REORDER_SETTINGS): BusinessSummary {
+  return generateBusinessSummary(data.sales, data.inventory, data.reviews, data.returns, data.customers, reorderSettings);
+}
+
 export function generateBusinessSummary(
   salesData: SalesData[], 
   inventoryData: InventoryData[], 
-  reviewData: ReviewData[]
+  reviewData: ReviewData[],
+  returnData: ReturnData[] = [],
+  customerData: CustomerData[] = [],
+  reorderSettings: ReorderSettings = DEFAULT_REORDER_SETTINGS
 ): BusinessSummary {
-  // Calculate total revenue and orders
-  const totalRevenue = salesData.reduce((sum, sale) => sum + (sale.Amount || 0), 0);
-  const totalOrders = salesData.length;
+  // An empty dataset means it was not uploaded
+  const hasSales = salesData.length > 0;
+  const hasInventory = inventoryData.length > 0;
+  const hasReviews = reviewData.length > 0;
+  const hasReturns = returnData.length > 0;
+  const hasCustomers = customerData.length > 0;
+  const availableDatasets: DatasetType[] = [
+    ...(hasSales ? ['sales' as const] : []),
+    ...(hasInventory ? ['inventory' as const] : []),
+    ...(hasReviews ? ['reviews' as const] : []),
+    ...(hasReturns ? ['returns' as const] : []),
+    ...(hasCustomers ? ['customers' as const] : [])
+  ];
+
+  // Calculate total revenue and orders; credit lines are returns and are netted off in the returns summary
+  const orders = salesData.filter(sale => !isReturnSale(sale));
+  const totalRevenue = orders.reduce((sum, sale) => sum + (sale.Amount || 0), 0);
+  const totalOrders = orders.length;
   const averageOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
 
   // Top products by revenue
-  const productRevenue = salesData.reduce((acc, sale) => {
-    const product = sale.Product;
-    acc[product] = (acc[product] || 0) + (sale.Amount || 0);
+  const productRevenue = orders.reduce((acc, sale) => {
+    const key = getProductKey(sale);
+    acc[key] = acc[key] || { product: sale.Product, revenue: 0 };
+    acc[key].revenue += sale.Amount || 0;
     return acc;
-  }, {} as Record<string, number>);
+  }, {} as Record<string, { product: string; revenue: number }>);
 
-  const topProducts = Object.entries(productRevenue)
-    .sort(([, a], [, b]) => b - a)
-    .slice(0, 5)
-    .map(([product, revenue]) => ({ product, revenue }));
+  const topProducts = Object.values(productRevenue)
+    .sort((a, b) => b.revenue - a.revenue)
+    .slice(0, 5);
 
   // Low stock items
   const lowStockItems = inventoryData
@@ -108,84 +362,129 @@ export function generateBusinessSummary(
     sentimentScore += (positiveCount - negativeCount);
   });
 
+  // Reorder points use the forecast demand where there is one
+  const forecast = summarizeForecast(salesData, inventoryData);
+
   // Normalize sentiment score (-1 to 1)
   const normalizedSentiment = reviewData.length > 0 ? 
     Math.max(-1, Math.min(1, sentimentScore / reviewData.length)) : 0;
 
   return {
-    totalRevenue,
-    totalOrders,
-    averageOrderValue,
-    topProducts,
-    lowStockItems,
-    averageRating,
-    sentimentScore: normalizedSentiment
+    availableDatasets,
+    totalRevenue: hasSales ? totalRevenue : null,
+    totalOrders: hasSales ? totalOrders : null,
+    averageOrderValue: hasSales ? averageOrderValue : null,
+    topProducts: hasSales ? topProducts : null,
+    lowStockItems: hasInventory ? lowStockItems : null,
+    averageRating: hasReviews ? averageRating : null,
+    sentimentScore: hasReviews ? normalizedSentiment : null,
+    ...optionalSections({
+      channelRevenue: summarizeChannels(salesData),
+      gst: summarizeGst(salesData),
+      sourceBreakdown: summarizeSources(salesData, inventoryData, reviewData),
+      customColumns: summarizeCustomColumns({
+        ...(hasSales ? { sales: salesData } : {}),
+        ...(hasInventory ? { inventory: inventoryData } : {}),
+        ...(hasReviews ? { reviews: reviewData } : {}),
+        ...(hasReturns ? { returns: returnData } : {}),
+        ...(hasCustomers ? { customers: customerData } : {})
+      }),
+      returns: summarizeReturns(salesData, returnData),
+      customers: summarizeCustomers(salesData, customerData),
+      margins: summarizeMargins(salesData, inventoryData),
+      trends: summarizeTrends(salesData),
+      forecast,
+      festivals: summarizeFestivals(salesData),
+      reorder: summarizeReorders(salesData, inventoryData, reorderSettings, forecast)
+    })
   };
 }
 
-export function validateSalesData(data: any[]): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
-  const requiredFields = ['Date', 'Product', 'Quantity', 'Amount'];
+function summarizeSources(salesData: SalesData[], inventoryData: InventoryData[], reviewData: ReviewData[]): SourceSummary[] | undefined {
+  const sources = getSources([...salesData, ...inventoryData, ...reviewData]);
+  if (sources.length <= 1) return undefined;
 
-  if (data.length === 0) {
-    errors.push('No data found in the file');
-    return { valid: false, errors };
-  }
-
-  const firstRow = data[0];
-  requiredFields.forEach(field => {
-    if (!(field in firstRow)) {
-      errors.push(`Missing required field: ${field}`);
-    }
+  return sources.map(source => {
+    const sales = salesData.filter(sale => sale.Source === source && !isReturnSale(sale));
+    const inventory = inventoryData.filter(item => item.Source === source);
+    const reviews = reviewData.filter(review => review.Source === source);
+    return {
+      source,
+      revenue: sales.length > 0 ? sales.reduce((sum, sale) => sum + (sale.Amount || 0), 0) : null,
+      orders: sales.length > 0 ? sales.length : null,
+      lowStockItems: inventory.length > 0 ? inventory.filter(item => item.Stock < (item.Min_Alert || 5)).length : null,
+      averageRating: reviews.length > 0 ? reviews.reduce((sum, review) => sum + (review.Rating || 0), 0) / reviews.length : null
+    };
   });
+}
 
-  // Check data types
-  data.slice(0, 5).forEach((row, index) => {
-    if (row.Quantity && isNaN(Number(row.Quantity))) {
-      errors.push(`Row ${index + 1}: Quantity must be a number`);
-    }
-    if (row.Amount && isNaN(Number(row.Amount))) {
-      errors.push(`Row ${index + 1}: Amount must be a number`);
-    }
-  });
+// Revenue per marketplace, only when at least one sale is tagged with a channel
+function summarizeChannels(salesData: SalesData[]): BusinessSummary['channelRevenue'] {
+  if (!salesData.some(sale => sale.Channel)) return undefined;
 
-  return { valid: errors.length === 0, errors };
+  // Credit lines are left to the returns summary, as in the headline totals
+  const channels = salesData.filter(sale => !isReturnSale(sale)).reduce((acc, sale) => {
+    const channel = sale.Channel || 'Other';
+    acc[channel] = acc[channel] || { revenue: 0, orders: 0 };
+    acc[channel].revenue += sale.Amount || 0;
+    acc[channel].orders += 1;
+    return acc;
+  }, {} as Record<string, { revenue: number; orders: number }>);
+
+  return Object.entries(channels)
+    .sort(([, a], [, b]) => b.revenue - a.revenue)
+    .map(([channel, totals]) => ({ channel, ...totals }));
 }
 
-export function validateInventoryData(data: any[]): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
-  const requiredFields = ['Product', 'Stock', 'Price'];
+// Tax totals for sales that carry a GST breakdown
+function summarizeGst(salesData: SalesData[]): GstSummary | undefined {
+  const taxed = salesData.filter(sale => typeof sale.Taxable_Value === 'number');
+  if (taxed.length === 0) return undefined;
 
-  if (data.length === 0) {
-    errors.push('No data found in the file');
-    return { valid: false, errors };
-  }
+  const summary: GstSummary = { taxableValue: 0, igst: 0, cgst: 0, sgst: 0, cess: 0, byRate: [] };
+  const byRate = new Map<number, { taxableValue: number; tax: number }>();
+  taxed.forEach(sale => {
+    const tax = (sale.IGST || 0) + (sale.CGST || 0) + (sale.SGST || 0) + (sale.Cess || 0);
+    summary.taxableValue += sale.Taxable_Value;
+    summary.igst += sale.IGST || 0;
+    summary.cgst += sale.CGST || 0;
+    summary.sgst += sale.SGST || 0;
+    summary.cess += sale.Cess || 0;
 
-  const firstRow = data[0];
-  requiredFields.forEach(field => {
-    if (!(field in firstRow)) {
-      errors.push(`Missing required field: ${field}`);
-    }
+    const rate = byRate.get(sale.GST_Rate || 0) || { taxableValue: 0, tax: 0 };
+    rate.taxableValue += sale.Taxable_Value;
+    rate.tax += tax;
+    byRate.set(sale.GST_Rate || 0, rate);
   });
 
-  return { valid: errors.length === 0, errors };
+  summary.byRate = Array.from(byRate.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([rate, totals]) => ({ rate, ...totals }));
+  return summary;
 }
 
-export function validateReviewData(data: any[]): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
-  const requiredFields = ['Date', 'Rating', 'Review', 'Product'];
+// Row-level checks live in schema-validation; these keep the simple valid/errors contract
+export function validateSalesData(data: Record<string, unknown>[]): { valid: boolean; errors: string[] } {
+  return toValidationResult(validateRows(data, 'sales'));
+}
 
-  if (data.length === 0) {
-    errors.push('No data found in the file');
-    return { valid: false, errors };
-  }
+export function validateInventoryData(data: Record<string, unknown>[]): { valid: boolean; errors: string[] } {
+  return toValidationResult(validateRows(data, 'inventory'));
+}
 
-  const firstRow = data[0];
-  requiredFields.forEach(field => {
-    if (!(field in firstRow)) {
-      errors.push(`Missing required field: ${field}`);
-    }
-  });
+export function validateReviewData(data: Record<string, unknown>[]): { valid: boolean; errors: string[] } {
+  return toValidationResult(validateRows(data, 'reviews'));
+}
+
+export function validateReturnData(data: Record<string, unknown>[]): { valid: boolean; errors: string[] } {
+  return toValidationResult(validateRows(data, 'returns'));
+}
+
+export function validateCustomerData(data: Record<string, unknown>[]): { valid: boolean; errors: string[] } {
+  return toValidationResult(validateRows(data, 'customers'));
+}
 
-  return { valid: errors.length === 0, errors };
-}
\ No newline at end of file
+function toValidationResult(report: ValidationReport<unknown>): { valid: boolean; errors: string[] } {
+  const valid = report.totalRows > 0 && report.missingColumns.length === 0 && report.rejectedRows.length === 0;
+  return { valid, errors: valid ? [] : summarizeValidation(report) };
+}
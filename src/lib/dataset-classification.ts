@@ -0,0 +1,107 @@
+import * as XLSX from 'xlsx';
+import { DATASET_LABELS, DATASET_REQUIRED_FIELDS, type DatasetType } from './data-processing';
+import { suggestColumnMapping } from './column-mapping';
+
+export interface FileClassification {
+  file: File;
+  // Set when the file can only be one dataset; otherwise the user picks from candidates
+  type: DatasetType | null;
+  candidates: DatasetType[];
+  // Best guess to preselect when asking, from the file name or the closest header match
+  suggested?: DatasetType;
+}
+
+const DATASET_TYPES = Object.keys(DATASET_LABELS) as DatasetType[];
+
+// Files inside an archive the upload cards can read
+const READABLE_FILE = /\.(csv|tsv|txt|xls|xlsx|xml|json)$/i;
+
+// Checked in order, so "Sales Returns.csv" is a returns file
+const NAME_HINTS: Array<{ type: DatasetType; pattern: RegExp }> = [
+  { type: 'returns', pattern: /return|refund|rto|credit ?note/i },
+  { type: 'sales', pattern: /sale|invoice|order|day ?book|register|gstr/i },
+  { type: 'inventory', pattern: /stock|inventory|godown|item ?master/i },
+  { type: 'reviews', pattern: /review|feedback|rating/i },
+  { type: 'customers', pattern: /customer|client|buyer|party|ledger/i }
+];
+
+export function isZipFile(file: File): boolean {
+  return /\.zip$/i.test(file.name);
+}
+
+/**
+ * Unpack the readable files of a ZIP archive. SheetJS already reads ZIP
+ * containers for .xlsx, so its CFB reader handles plain archives too.
+ */
+export function extractZipFiles(bytes: Uint8Array): File[] {
+  const archive = XLSX.CFB.read(bytes, { type: 'array' });
+  return archive.FileIndex
+    .map((entry, index) => ({ entry, path: archive.FullPaths[index] }))
+    .filter(({ entry, path }) =>
+      entry.type === 2 && entry.content && READABLE_FILE.test(entry.name) && !/__MACOSX\/|\/\./.test(path)
+    )
+    .map(({ entry }) => new File([entry.content as Uint8Array], entry.name));
+}
+
+// Returns need only fields a sales file also has, so a reason column is what tells them apart.
+// It has to match closely: a fuzzy hit like "Season" is no sign of a returns file.
+const SIGNATURE_SCORE = 0.9;
+const SIGNATURE_FIELDS: Partial<Record<DatasetType, { field: string; overlaps: DatasetType }>> = {
+  returns: { field: 'Reason', overlaps: 'sales' }
+};
+
+// A sales register that names its buyers fills the customer fields too, so a complete sales match stays sales
+const CONTAINED_IN: Partial<Record<DatasetType, DatasetType>> = {
+  customers: 'sales'
+};
+
+// Share of each dataset's required fields the headers can fill
+export function scoreHeaders(headers: string[]): Record<DatasetType, number> {
+  const scores = {} as Record<DatasetType, number>;
+  const signed = new Set<DatasetType>();
+  DATASET_TYPES.forEach(type => {
+    const { mapping, suggestions } = suggestColumnMapping(headers, type);
+    const required = DATASET_REQUIRED_FIELDS[type];
+    scores[type] = required.filter(field => mapping[field]).length / required.length;
+    const signature = SIGNATURE_FIELDS[type];
+    if (signature && suggestions.some(({ field, score }) => field === signature.field && score >= SIGNATURE_SCORE)) signed.add(type);
+  });
+
+  // Without its signature a dataset falls just short of a full match, and with it the overlapping one does
+  (Object.entries(SIGNATURE_FIELDS) as Array<[DatasetType, { field: string; overlaps: DatasetType }]>).forEach(([type, { overlaps }]) => {
+    const loser = signed.has(type) ? overlaps : type;
+    scores[loser] = Math.min(scores[loser], 0.9);
+  });
+  (Object.entries(CONTAINED_IN) as Array<[DatasetType, DatasetType]>).forEach(([type, container]) => {
+    if (scores[container] === 1) scores[type] = Math.min(scores[type], 0.9);
+  });
+  return scores;
+}
+
+export function guessTypeFromName(name: string): DatasetType | undefined {
+  return NAME_HINTS.find(hint => hint.pattern.test(name))?.type;
+}
+
+/**
+ * Decide the dataset from what the file could hold. One complete match wins
+ * outright; several or none leave it to the user, with the file name or the
+ * nearest match as the suggestion.
+ */
+export function resolveClassification(file: File, candidates: DatasetType[], scores?: Record<DatasetType, number>): FileClassification {
+  if (candidates.length === 1) {
+    return { file, type: candidates[0], candidates, suggested: candidates[0] };
+  }
+
+  const fromName = guessTypeFromName(file.name);
+  const pool = candidates.length > 0 ? candidates : DATASET_TYPES;
+  const closest = scores
+    ? [...pool].sort((a, b) => scores[b] - scores[a]).find(type => scores[type] > 0)
+    : undefined;
+  const suggested = fromName && pool.includes(fromName) ? fromName : closest;
+  return { file, type: null, candidates: pool, suggested };
+}
+
+export function classifyHeaders(file: File, headers: string[]): FileClassification {
+  const scores = scoreHeaders(headers);
+  return resolveClassification(file, DATASET_TYPES.filter(type => scores[type] === 1), scores);
+}
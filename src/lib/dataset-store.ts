@@ -0,0 +1,191 @@
+import { type DatasetType } from './data-processing';
+
+// Fields that together identify one record, e.g. an order ID or date + product + amount
+export type DedupeKey = string[];
+
+export interface ChangedRecord<T> {
+  // Position of the matching record in the existing rows
+  index: number;
+  before: T;
+  after: T;
+}
+
+export interface MergeDiff<T> {
+  added: T[];
+  duplicates: number;
+  changed: ChangedRecord<T>[];
+}
+
+// Enough to reverse a merge: appended rows are dropped from the end, changed rows restored in place
+export interface MergeUndo<T> {
+  fileName: string;
+  mergedAt: string;
+  addedCount: number;
+  changed: Array<{ index: number; before: T }>;
+}
+
+export interface StoredDataset<T> {
+  rows: T[];
+  updatedAt: string;
+  lastMerge?: MergeUndo<T>;
+}
+
+const DATASET_STORAGE_PREFIX = 'vyaaparik:dataset:';
+const DEDUPE_KEY_STORAGE_KEY = 'vyaaparik:dedupe-keys';
+
+// In order of preference; an option is offered only when the uploaded rows have its fields
+export const DEDUPE_KEY_OPTIONS: Record<DatasetType, DedupeKey[]> = {
+  sales: [
+    ['Order_ID', 'Product'],
+    ['Invoice_No', 'Product'],
+    ['Voucher_No', 'Product'],
+    ['Date', 'Product', 'Amount']
+  ],
+  inventory: [
+    ['Product', 'Godown'],
+    ['Product']
+  ],
+  reviews: [
+    ['Date', 'Product', 'Review']
+  ],
+  returns: [
+    ['Order_ID', 'Product'],
+    ['Date', 'Product', 'Quantity']
+  ],
+  customers: [
+    ['Customer_ID']
+  ]
+};
+
+export function describeDedupeKey(key: DedupeKey): string {
+  return key.map(field => field.replace('_', ' ')).join(' + ');
+}
+
+export function getDedupeKeyOptions<T>(type: DatasetType, rows: T[]): DedupeKey[] {
+  const sample = rows.slice(0, 100) as Array<Record<string, unknown>>;
+  const hasField = (field: string) => sample.some(row => row[field] !== undefined && row[field] !== '');
+  const options = DEDUPE_KEY_OPTIONS[type].filter(key => key.every(hasField));
+
+  // Two branches can sell the same item for the same amount on the same day
+  return hasField('Source') ? options.flatMap(key => [[...key, 'Source'], key]) : options;
+}
+
+export function loadDedupeKey<T>(type: DatasetType, rows: T[]): DedupeKey {
+  const options = getDedupeKeyOptions(type, rows);
+  try {
+    const saved = JSON.parse(localStorage.getItem(DEDUPE_KEY_STORAGE_KEY) || '{}')[type] as DedupeKey | undefined;
+    const match = saved && options.find(option => option.join() === saved.join());
+    if (match) return match;
+  } catch (error) {
+    console.warn('Ignoring unreadable dedupe keys:', error);
+  }
+  return options[0] || DEDUPE_KEY_OPTIONS[type][DEDUPE_KEY_OPTIONS[type].length - 1];
+}
+
+export function saveDedupeKey(type: DatasetType, key: DedupeKey): void {
+  try {
+    const saved = JSON.parse(localStorage.getItem(DEDUPE_KEY_STORAGE_KEY) || '{}');
+    saved[type] = key;
+    localStorage.setItem(DEDUPE_KEY_STORAGE_KEY, JSON.stringify(saved));
+  } catch (error) {
+    console.warn('Could not save dedupe key:', error);
+  }
+}
+
+function getRecordKey(record: unknown, key: DedupeKey): string {
+  const row = record as Record<string, unknown>;
+  return JSON.stringify(key.map(field => String(row[field] ?? '').trim().toLowerCase()));
+}
+
+function isSameRecord(a: unknown, b: unknown): boolean {
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const fields = new Set([...Object.keys(left), ...Object.keys(right)]);
+  return Array.from(fields).every(field => String(left[field] ?? '') === String(right[field] ?? ''));
+}
+
+/**
+ * Compare incoming rows with what is already stored. Each existing record can
+ * match one incoming record, so two genuine identical sales in one file are
+ * not collapsed into one.
+ */
+export function diffDatasets<T>(existing: T[], incoming: T[], key: DedupeKey): MergeDiff<T> {
+  const unmatched = new Map<string, number[]>();
+  existing.forEach((row, index) => {
+    const recordKey = getRecordKey(row, key);
+    const indices = unmatched.get(recordKey) || [];
+    indices.push(index);
+    unmatched.set(recordKey, indices);
+  });
+
+  const diff: MergeDiff<T> = { added: [], duplicates: 0, changed: [] };
+  incoming.forEach(row => {
+    const index = unmatched.get(getRecordKey(row, key))?.shift();
+    if (index === undefined) {
+      diff.added.push(row);
+    } else if (isSameRecord(existing[index], row)) {
+      diff.duplicates++;
+    } else {
+      diff.changed.push({ index, before: existing[index], after: row });
+    }
+  });
+  return diff;
+}
+
+// New rows are appended; changed rows take the incoming values
+export function mergeDatasets<T>(existing: T[], diff: MergeDiff<T>, fileName: string): StoredDataset<T> {
+  const rows = [...existing];
+  diff.changed.forEach(({ index, after }) => {
+    rows[index] = after;
+  });
+  rows.push(...diff.added);
+
+  const mergedAt = new Date().toISOString();
+  return {
+    rows,
+    updatedAt: mergedAt,
+    lastMerge: {
+      fileName,
+      mergedAt,
+      addedCount: diff.added.length,
+      changed: diff.changed.map(({ index, before }) => ({ index, before }))
+    }
+  };
+}
+
+export function undoLastMerge<T>(dataset: StoredDataset<T>): StoredDataset<T> {
+  if (!dataset.lastMerge) return dataset;
+
+  const { addedCount, changed } = dataset.lastMerge;
+  const rows = dataset.rows.slice(0, dataset.rows.length - addedCount);
+  changed.forEach(({ index, before }) => {
+    rows[index] = before;
+  });
+  return { rows, updatedAt: new Date().toISOString() };
+}
+
+export function loadDataset<T>(type: DatasetType): StoredDataset<T> | null {
+  try {
+    const saved = localStorage.getItem(DATASET_STORAGE_PREFIX + type);
+    return saved ? JSON.parse(saved) as StoredDataset<T> : null;
+  } catch (error) {
+    console.warn('Ignoring unreadable saved dataset:', error);
+    return null;
+  }
+}
+
+// Returns false when the browser would not store it, usually because the data exceeds the storage quota
+export function saveDataset<T>(type: DatasetType, dataset: StoredDataset<T>): boolean {
+  try {
+    localStorage.setItem(DATASET_STORAGE_PREFIX + type, JSON.stringify(dataset));
+    return true;
+  } catch (error) {
+    console.warn('Could not save dataset:', error);
+    localStorage.removeItem(DATASET_STORAGE_PREFIX + type);
+    return false;
+  }
+}
+
+export function clearDataset(type: DatasetType): void {
+  localStorage.removeItem(DATASET_STORAGE_PREFIX + type);
+}
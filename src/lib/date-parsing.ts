@@ -0,0 +1,201 @@
+// Order of the day and month in numeric dates like 03/04/2024
+export type DateOrder = 'DMY' | 'MDY';
+
+export interface DateOrderDetection {
+  order: DateOrder;
+  // True when no value in the column settles the order, e.g. every date is like 03/04/2024
+  ambiguous: boolean;
+  sample?: string;
+}
+
+interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  time?: { hours: number; minutes: number; seconds: number };
+}
+
+// India has a fixed +05:30 offset with no daylight saving
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+const IST_SUFFIX = '+05:30';
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1,
+  feb: 2, february: 2,
+  mar: 3, march: 3,
+  apr: 4, april: 4,
+  may: 5,
+  jun: 6, june: 6,
+  jul: 7, july: 7,
+  aug: 8, august: 8,
+  sep: 9, sept: 9, september: 9,
+  oct: 10, october: 10,
+  nov: 11, november: 11,
+  dec: 12, december: 12
+};
+
+const TIME = String.raw`(?:[\sT,]+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*(am|pm)?)?`;
+// Also accepts the "2024-04-01 10:00:00 +0530" form Shopify exports
+const ISO_WITH_ZONE = /^(\d{4}-\d{2}-\d{2})[T ]([\d:.]+)\s?(Z|[+-]\d{2}):?(\d{2})?$/i;
+const YEAR_FIRST = new RegExp(String.raw`^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})${TIME}$`, 'i');
+const NUMERIC = new RegExp(String.raw`^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})${TIME}$`, 'i');
+const DAY_MONTH_NAME = new RegExp(String.raw`^(\d{1,2})(?:st|nd|rd|th)?[\s\-/.]*([a-z]{3,9})[\s\-/.,']*(\d{4}|\d{2})${TIME}$`, 'i');
+const MONTH_NAME_DAY = new RegExp(String.raw`^([a-z]{3,9})[\s\-/.]+(\d{1,2})(?:st|nd|rd|th)?,?[\s\-/.']+(\d{4}|\d{2})${TIME}$`, 'i');
+const SERIAL = /^\d{5}(\.\d+)?$/;
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+function expandYear(year: string): number {
+  const value = Number(year);
+  if (year.length === 4) return value;
+  return value < 70 ? 2000 + value : 1900 + value;
+}
+
+function parseTime(hours?: string, minutes?: string, seconds?: string, meridiem?: string): DateParts['time'] {
+  if (hours === undefined) return undefined;
+
+  let h = Number(hours);
+  if (meridiem) {
+    const isPm = meridiem.toLowerCase() === 'pm';
+    if (h === 12) h = isPm ? 12 : 0;
+    else if (isPm) h += 12;
+  }
+  return { hours: h, minutes: Number(minutes), seconds: Number(seconds || 0) };
+}
+
+function isValid(parts: DateParts): boolean {
+  const { year, month, day, time } = parts;
+  const check = new Date(Date.UTC(year, month - 1, day));
+  const dateOk = check.getUTCFullYear() === year && check.getUTCMonth() === month - 1 && check.getUTCDate() === day;
+  const timeOk = !time || (time.hours < 24 && time.minutes < 60 && time.seconds < 60);
+  return dateOk && timeOk;
+}
+
+// Wall-clock parts of an instant as seen in India
+function toISTParts(timestamp: number): DateParts {
+  const shifted = new Date(timestamp + IST_OFFSET_MS);
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    time: { hours: shifted.getUTCHours(), minutes: shifted.getUTCMinutes(), seconds: shifted.getUTCSeconds() }
+  };
+}
+
+function excelSerialToParts(serial: number): DateParts | null {
+  // Serial 1 is 1900-01-01; Excel's phantom 29 Feb 1900 means the epoch is effectively 1899-12-30
+  if (serial < 61 || serial > 2958465) return null;
+  const totalSeconds = Math.round(serial * 86400);
+  const shifted = new Date(Date.UTC(1899, 11, 30) + totalSeconds * 1000);
+  const hasTime = totalSeconds % 86400 !== 0;
+
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    time: hasTime ? { hours: shifted.getUTCHours(), minutes: shifted.getUTCMinutes(), seconds: shifted.getUTCSeconds() } : undefined
+  };
+}
+
+function parseDateParts(value: unknown, order: DateOrder): DateParts | null {
+  if (typeof value === 'number') return excelSerialToParts(value);
+  if (typeof value !== 'string') return null;
+
+  const text = value.trim();
+  if (text === '') return null;
+
+  if (SERIAL.test(text)) return excelSerialToParts(Number(text));
+
+  const zoned = text.match(ISO_WITH_ZONE);
+  if (zoned) {
+    const [, date, time, zone, zoneMinutes] = zoned;
+    const timestamp = Date.parse(`${date}T${time}${zone.toUpperCase() === 'Z' ? 'Z' : `${zone}:${zoneMinutes || '00'}`}`);
+    return isNaN(timestamp) ? null : toISTParts(timestamp);
+  }
+
+  let match = text.match(YEAR_FIRST);
+  if (match) {
+    const [, year, month, day, ...time] = match;
+    return { year: Number(year), month: Number(month), day: Number(day), time: parseTime(...time) };
+  }
+
+  match = text.match(NUMERIC);
+  if (match) {
+    const [, first, second, year, ...time] = match;
+    const [day, month] = order === 'DMY' ? [first, second] : [second, first];
+    return { year: expandYear(year), month: Number(month), day: Number(day), time: parseTime(...time) };
+  }
+
+  match = text.match(DAY_MONTH_NAME);
+  if (match && MONTHS[match[2].toLowerCase()]) {
+    const [, day, monthName, year, ...time] = match;
+    return { year: expandYear(year), month: MONTHS[monthName.toLowerCase()], day: Number(day), time: parseTime(...time) };
+  }
+
+  match = text.match(MONTH_NAME_DAY);
+  if (match && MONTHS[match[1].toLowerCase()]) {
+    const [, monthName, day, year, ...time] = match;
+    return { year: expandYear(year), month: MONTHS[monthName.toLowerCase()], day: Number(day), time: parseTime(...time) };
+  }
+
+  return null;
+}
+
+function formatParts(parts: DateParts): string {
+  const date = `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+  if (!parts.time) return date;
+
+  const { hours, minutes, seconds } = parts.time;
+  return `${date}T${pad(hours)}:${pad(minutes)}:${pad(seconds)}${IST_SUFFIX}`;
+}
+
+/**
+ * Normalize a date cell to Asia/Kolkata: "YYYY-MM-DD" for plain dates, or
+ * "YYYY-MM-DDTHH:mm:ss+05:30" when the source carries a time of day.
+ * Values without a zone are read as Indian wall-clock time. Returns null when
+ * the value is not a recognisable date.
+ */
+export function normalizeDate(value: unknown, order: DateOrder = 'DMY'): string | null {
+  const parts = parseDateParts(value, order);
+  return parts && isValid(parts) ? formatParts(parts) : null;
+}
+
+export function detectDateOrder(values: unknown[]): DateOrderDetection {
+  let dayFirst = 0;
+  let monthFirst = 0;
+  let sample: string | undefined;
+
+  values.forEach(value => {
+    if (typeof value !== 'string') return;
+    const match = value.trim().match(NUMERIC);
+    if (!match) return;
+
+    const first = Number(match[1]);
+    const second = Number(match[2]);
+    if (first > 12 && second <= 12) dayFirst++;
+    else if (second > 12 && first <= 12) monthFirst++;
+    else if (first !== second && !sample) sample = value.trim();
+  });
+
+  if (dayFirst > 0 || monthFirst > 0) {
+    // Indian exports are day-first, so a tie or contradiction falls back to DD/MM
+    return { order: monthFirst > dayFirst ? 'MDY' : 'DMY', ambiguous: false };
+  }
+  return { order: 'DMY', ambiguous: sample !== undefined, sample };
+}
+
+// Calendar day in IST for a normalized date, used as the key for daily aggregates
+export function getDateKey(normalized: string): string {
+  return normalized.slice(0, 10);
+}
+
+// Calendar month in IST for a normalized date, e.g. "2024-10"
+export function getMonthKey(normalized: string): string {
+  return normalized.slice(0, 7);
+}
+
+// Format a JS Date as the IST calendar day, unlike toISOString which uses UTC
+export function formatISTDate(date: Date): string {
+  const { year, month, day } = toISTParts(date.getTime());
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
@@ -1,4 +1,15 @@
-import { type SalesData, type InventoryData, type ReviewData, type BusinessSummary } from './data-processing';
+import { type SalesData, type InventoryData, type ReviewData, type ReturnData, type CustomerData, type BusinessData, type BusinessSummary } from './data-processing';
+import { formatISTDate } from './date-parsing';
+import { summarizeReturns } from './returns';
+import { summarizeCustomers } from './customers';
+import { summarizeMargins } from './margins';
+import { summarizeTrends } from './time-series';
+import { summarizeForecast } from './forecasting';
+import { summarizeFestivals } from './festival-calendar';
+import { summarizeReorders } from './reorder';
+
+const DEMO_CUSTOMERS = 30;
+const demoCustomerId = (index: number) => `C${String(index + 1).padStart(3, '0')}`;
 
 export const generateDemoSalesData = (): SalesData[] => {
   const products = ['Blue Kurta', 'Red Saree', 'Cotton Shirt', 'Denim Jeans', 'Silk Dupatta', 'Woolen Shawl'];
@@ -17,12 +28,14 @@ export const generateDemoSalesData = (): SalesData[] => {
     const basePrice = Math.floor(Math.random() * 2000) + 500;
     
     data.push({
-      Date: date.toISOString().split('T')[0],
+      Date: formatISTDate(date),
       Product: product,
       Category: categories[Math.floor(Math.random() * categories.length)],
       Quantity: quantity,
       Amount: basePrice * quantity,
       Customer_Age: Math.floor(Math.random() * 40) + 20,
+      // Squaring skews purchases towards the first customers, so some buy again and again
+      Customer_ID: demoCustomerId(Math.floor(Math.random() ** 2 * DEMO_CUSTOMERS)),
       Location: locations[Math.floor(Math.random() * locations.length)]
     });
   }
@@ -35,14 +48,19 @@ export const generateDemoInventoryData = (): InventoryData[] => {
   const categories = ['Ethnic', 'Western', 'Accessories'];
   const suppliers = ['Fashion_Co', 'Style_Hub', 'Trend_Makers', 'Elite_Fashion'];
   
-  return products.map(product => ({
-    Product: product,
-    Category: categories[Math.floor(Math.random() * categories.length)],
-    Stock: Math.floor(Math.random() * 50) + 5,
-    Price: Math.floor(Math.random() * 2000) + 500,
-    Supplier: suppliers[Math.floor(Math.random() * suppliers.length)],
-    Min_Alert: Math.floor(Math.random() * 10) + 5
-  }));
+  return products.map(product => {
+    const price = Math.floor(Math.random() * 2000) + 500;
+    return {
+      Product: product,
+      Category: categories[Math.floor(Math.random() * categories.length)],
+      Stock: Math.floor(Math.random() * 50) + 5,
+      Price: price,
+      // Between 55% and 90% of the price, so a product or two shows up as low-margin
+      Cost_Price: Math.round(price * (0.55 + Math.random() * 0.35)),
+      Supplier: suppliers[Math.floor(Math.random() * suppliers.length)],
+      Min_Alert: Math.floor(Math.random() * 10) + 5
+    };
+  });
 };
 
 export const generateDemoReviewData = (): ReviewData[] => {
@@ -79,7 +97,7 @@ export const generateDemoReviewData = (): ReviewData[] => {
     const reviewTexts = isPositive ? positiveReviews : negativeReviews;
     
     data.push({
-      Date: date.toISOString().split('T')[0],
+      Date: formatISTDate(date),
       Rating: rating,
       Review: reviewTexts[Math.floor(Math.random() * reviewTexts.length)],
       Product: products[Math.floor(Math.random() * products.length)],
@@ -90,13 +108,54 @@ export const generateDemoReviewData = (): ReviewData[] => {
   return data;
 };
 
+export const generateDemoCustomerData = (): CustomerData[] => {
+  const firstNames = ['Priya', 'Rahul', 'Anjali', 'Vikram', 'Sneha', 'Arjun', 'Kavya', 'Rohan', 'Meera', 'Aditya'];
+  const lastNames = ['Sharma', 'Patel', 'Iyer', 'Reddy', 'Gupta', 'Nair'];
+  const cities = ['Mumbai', 'Delhi', 'Bangalore', 'Chennai', 'Kolkata', 'Pune'];
+  const startDate = new Date('2023-01-01');
+
+  return Array.from({ length: DEMO_CUSTOMERS }, (_, index) => {
+    const joined = new Date(startDate);
+    joined.setDate(joined.getDate() + Math.floor(Math.random() * 640));
+    return {
+      Customer_ID: demoCustomerId(index),
+      Name: `${firstNames[index % firstNames.length]} ${lastNames[Math.floor(Math.random() * lastNames.length)]}`,
+      Phone: `9${String(Math.floor(Math.random() * 1e9)).padStart(9, '0')}`,
+      City: cities[Math.floor(Math.random() * cities.length)],
+      Join_Date: formatISTDate(joined)
+    };
+  });
+};
+
+// Returns are drawn from the demo sales, so every returned product was sold
+export const generateDemoReturnData = (sales: SalesData[]): ReturnData[] => {
+  const reasons = ['Size too small', 'Colour different from photo', 'Damaged in transit', 'Fabric quality poor', 'Changed my mind', 'RTO - customer not available'];
+
+  return sales
+    .filter(() => Math.random() < 0.15)
+    .map(sale => {
+      const date = new Date(sale.Date);
+      date.setDate(date.getDate() + Math.floor(Math.random() * 10) + 3);
+      return {
+        Date: formatISTDate(date),
+        Product: sale.Product,
+        Category: sale.Category,
+        Quantity: 1,
+        Amount: Math.round(sale.Amount / sale.Quantity),
+        Reason: reasons[Math.floor(Math.random() * reasons.length)]
+      };
+    });
+};
+
 export const getDemoBusinessSummary = (): {
   summary: BusinessSummary;
-  data: { sales: SalesData[]; inventory: InventoryData[]; reviews: ReviewData[] };
+  data: BusinessData;
 } => {
   const sales = generateDemoSalesData();
   const inventory = generateDemoInventoryData();
   const reviews = generateDemoReviewData();
+  const returns = generateDemoReturnData(sales);
+  const customers = generateDemoCustomerData();
   
   const totalRevenue = sales.reduce((sum, sale) => sum + sale.Amount, 0);
   const totalOrders = sales.length;
@@ -120,18 +179,28 @@ export const getDemoBusinessSummary = (): {
   
   const averageRating = reviews.reduce((sum, review) => sum + review.Rating, 0) / reviews.length;
   
+  const forecast = summarizeForecast(sales, inventory);
+
   const summary: BusinessSummary = {
+    availableDatasets: ['sales', 'inventory', 'reviews', 'returns', 'customers'],
     totalRevenue,
     totalOrders,
     averageOrderValue,
     topProducts,
     lowStockItems,
     averageRating,
-    sentimentScore: 0.3 // Slightly positive
+    sentimentScore: 0.3, // Slightly positive
+    returns: summarizeReturns(sales, returns),
+    customers: summarizeCustomers(sales, customers),
+    margins: summarizeMargins(sales, inventory),
+    trends: summarizeTrends(sales),
+    forecast,
+    festivals: summarizeFestivals(sales),
+    reorder: summarizeReorders(sales, inventory, undefined, forecast)
   };
   
   return {
     summary,
-    data: { sales, inventory, reviews }
+    data: { sales, inventory, reviews, returns, customers }
   };
 };
\ No newline at end of file
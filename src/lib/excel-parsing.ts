@@ -0,0 +1,127 @@
+import * as XLSX from 'xlsx';
+import { coerceRecord, type RawTable } from './data-processing';
+import { formatISTDate } from './date-parsing';
+
+export interface WorkbookSheet {
+  name: string;
+  headers: string[];
+  rowCount: number;
+}
+
+export function isExcelFile(file: File): boolean {
+  return /\.(xlsx|xls)$/i.test(file.name);
+}
+
+export async function readWorkbook(file: File): Promise<XLSX.WorkBook> {
+  const buffer = await file.arrayBuffer();
+  return XLSX.read(buffer, { type: 'array' });
+}
+
+// Excel stores dates as day serials; SSF decodes them without going through the local timezone
+export function excelSerialToDateString(serial: number): string {
+  const parsed = XLSX.SSF.parse_date_code(serial);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const date = `${parsed.y}-${pad(parsed.m)}-${pad(parsed.d)}`;
+
+  if (parsed.H === 0 && parsed.M === 0 && parsed.S === 0) {
+    return date;
+  }
+  return `${date} ${pad(parsed.H)}:${pad(parsed.M)}:${pad(parsed.S)}`;
+}
+
+function readCellValue(cell: XLSX.CellObject | undefined): unknown {
+  if (!cell) return '';
+
+  switch (cell.t) {
+    case 'n':
+      if (cell.z && XLSX.SSF.is_date(cell.z as string)) {
+        return excelSerialToDateString(cell.v as number);
+      }
+      return cell.v;
+    case 'd':
+      // Read in IST like every other date, so a midnight cell keeps its day
+      return formatISTDate(cell.v as Date);
+    case 's':
+      return (cell.v as string).trim();
+    case 'b':
+      return cell.v;
+    default:
+      // Error cells ('e') and stubs ('z') carry no usable value
+      return '';
+  }
+}
+
+function readSheetRows(sheet: XLSX.WorkSheet): RawTable {
+  if (!sheet['!ref']) {
+    return { headers: [], rows: [] };
+  }
+
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const headers: string[] = [];
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    const value = readCellValue(sheet[XLSX.utils.encode_cell({ r: range.s.r, c })]);
+    headers.push(String(value));
+  }
+
+  const rows: Record<string, unknown>[] = [];
+  for (let r = range.s.r + 1; r <= range.e.r; r++) {
+    const row: Record<string, unknown> = {};
+    let hasValue = false;
+
+    headers.forEach((header, index) => {
+      if (!header) return;
+      const value = readCellValue(sheet[XLSX.utils.encode_cell({ r, c: range.s.c + index })]);
+      if (value !== '') hasValue = true;
+      row[header] = value;
+    });
+
+    // Match PapaParse's skipEmptyLines behaviour
+    if (hasValue) rows.push(row);
+  }
+
+  return { headers: headers.filter(Boolean), rows };
+}
+
+export function listWorkbookSheets(workbook: XLSX.WorkBook): WorkbookSheet[] {
+  return workbook.SheetNames.map(name => {
+    const { headers, rows } = readSheetRows(workbook.Sheets[name]);
+    return { name, headers, rowCount: rows.length };
+  });
+}
+
+// Read a sheet with typed cells but original headers, ready for column mapping
+export function readExcelSheet(workbook: XLSX.WorkBook, sheetName: string): RawTable {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) {
+    throw new Error(`Sheet "${sheetName}" not found in workbook`);
+  }
+  return readSheetRows(sheet);
+}
+
+// Every cell of a sheet as a grid, for reports whose header is not on the first row
+export function readExcelMatrix(workbook: XLSX.WorkBook, sheetName: string): unknown[][] {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) {
+    throw new Error(`Sheet "${sheetName}" not found in workbook`);
+  }
+  if (!sheet['!ref']) return [];
+
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const matrix: unknown[][] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: unknown[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const cell = sheet[XLSX.utils.encode_cell({ r, c })];
+      // Leading spaces are kept, as Tally reports indent stock items under their group
+      row.push(cell?.t === 's' ? (cell.v as string).trimEnd() : readCellValue(cell));
+    }
+    matrix.push(row);
+  }
+  return matrix;
+}
+
+export function parseExcelSheet<T>(workbook: XLSX.WorkBook, sheetName: string): T[] {
+  const { rows } = readExcelSheet(workbook, sheetName);
+  // Date columns without a date number format still arrive as raw serials, which coercion handles
+  return rows.map(row => coerceRecord(row) as T);
+}
@@ -0,0 +1,392 @@
+import { type SalesData } from './data-processing';
+import { formatISTDate, getDateKey } from './date-parsing';
+import { isReturnSale } from './returns';
+
+export type FestivalKind = 'festival' | 'season' | 'sale';
+
+export interface FestivalOccurrence {
+  key: string;
+  name: string;
+  kind: FestivalKind;
+  year: number;
+  // The festival day itself; the first day for seasons and sales
+  date: string;
+  // Shopping window: the run-up to a festival, or the whole season
+  start: string;
+  end: string;
+  // States where it is a major shopping occasion; none means all-India
+  regions?: string[];
+}
+
+export interface GroupUplift {
+  name: string;
+  revenue: number;
+  uplift: number | null;
+}
+
+export interface FestivalUplift extends FestivalOccurrence {
+  revenue: number;
+  quantity: number;
+  // Days of the window inside the data; partial when the data starts or ends within it
+  daysCovered: number;
+  partial: boolean;
+  dailyRevenue: number;
+  // Average day in the four weeks before, leaving out other festival run-ups
+  baselineDailyRevenue: number | null;
+  // Null when the data does not reach back far enough for a baseline
+  uplift: number | null;
+  byProduct: GroupUplift[];
+  byCategory: GroupUplift[];
+}
+
+export interface FestivalSummary {
+  periods: FestivalUplift[];
+  // Average uplift of each festival across the years in the data, biggest first
+  byFestival: Array<{ key: string; name: string; occurrences: number; averageUplift: number | null }>;
+}
+
+interface FestivalDefinition {
+  key: string;
+  name: string;
+  kind: FestivalKind;
+  // Lowercase phrases that name it in a question, in English and Hinglish
+  aliases: string[];
+  regions?: string[];
+  // Days of shopping before the festival day, and after it
+  leadDays: number;
+  trailDays: number;
+  dates: Record<number, string>;
+}
+
+interface SeasonDefinition {
+  key: string;
+  name: string;
+  kind: FestivalKind;
+  aliases: string[];
+  // MM-DD ranges repeated every year; an end before the start runs into the next year
+  windows: Array<{ start: string; end: string }>;
+}
+
+// Lunar festivals move every year, and Eid can shift a day with the moon sighting.
+// Dates follow the central government holiday lists for 2022 to 2026, and the
+// panchang and Hijri calendars for later years until their lists are out.
+export const CALENDAR_YEARS = [2022, 2023, 2024, 2025, 2026, 2027, 2028];
+
+const everyYear = (monthDay: string) => Object.fromEntries(CALENDAR_YEARS.map(year => [year, `${year}-${monthDay}`]));
+
+const DUSSEHRA = { 2022: '2022-10-05', 2023: '2023-10-24', 2024: '2024-10-12', 2025: '2025-10-02', 2026: '2026-10-20', 2027: '2027-10-09', 2028: '2028-09-27' };
+
+const FESTIVALS: FestivalDefinition[] = [
+  {
+    key: 'diwali', name: 'Diwali', kind: 'festival', aliases: ['diwali', 'deepavali', 'divali', 'dipawali', 'dhanteras'],
+    leadDays: 14, trailDays: 1,
+    dates: { 2022: '2022-10-24', 2023: '2023-11-12', 2024: '2024-10-31', 2025: '2025-10-20', 2026: '2026-11-08', 2027: '2027-10-29', 2028: '2028-10-17' }
+  },
+  {
+    key: 'holi', name: 'Holi', kind: 'festival', aliases: ['holi'],
+    leadDays: 7, trailDays: 0,
+    dates: { 2022: '2022-03-18', 2023: '2023-03-08', 2024: '2024-03-25', 2025: '2025-03-14', 2026: '2026-03-04', 2027: '2027-03-22', 2028: '2028-03-11' }
+  },
+  {
+    key: 'eid_ul_fitr', name: 'Eid ul-Fitr', kind: 'festival', aliases: ['eid ul fitr', 'eid al fitr', 'id ul fitr', 'ramzan eid', 'ramadan', 'ramzan', 'eid'],
+    leadDays: 10, trailDays: 1,
+    dates: { 2022: '2022-05-03', 2023: '2023-04-22', 2024: '2024-04-11', 2025: '2025-03-31', 2026: '2026-03-21', 2027: '2027-03-10', 2028: '2028-02-27' }
+  },
+  {
+    key: 'bakrid', name: 'Bakrid (Eid al-Adha)', kind: 'festival', aliases: ['bakrid', 'bakri eid', 'eid al adha', 'eid ul adha', 'eid ul azha'],
+    leadDays: 7, trailDays: 1,
+    dates: { 2022: '2022-07-10', 2023: '2023-06-29', 2024: '2024-06-17', 2025: '2025-06-07', 2026: '2026-05-27', 2027: '2027-05-17', 2028: '2028-05-05' }
+  },
+  {
+    key: 'navratri', name: 'Navratri and Dussehra', kind: 'festival', aliases: ['navratri', 'navaratri', 'dussehra', 'dasara', 'dussera', 'garba'],
+    regions: ['Gujarat', 'Maharashtra', 'Karnataka', 'North India'], leadDays: 9, trailDays: 0,
+    dates: DUSSEHRA
+  },
+  {
+    key: 'durga_puja', name: 'Durga Puja', kind: 'festival', aliases: ['durga puja', 'durga pooja', 'pujo'],
+    regions: ['West Bengal', 'Assam', 'Odisha', 'Tripura', 'Bihar'], leadDays: 14, trailDays: 0,
+    dates: DUSSEHRA
+  },
+  {
+    key: 'onam', name: 'Onam', kind: 'festival', aliases: ['onam', 'thiruvonam'],
+    regions: ['Kerala'], leadDays: 10, trailDays: 0,
+    dates: { 2022: '2022-09-08', 2023: '2023-08-29', 2024: '2024-09-15', 2025: '2025-09-05', 2026: '2026-08-26', 2027: '2027-09-12', 2028: '2028-08-31' }
+  },
+  {
+    key: 'pongal', name: 'Pongal and Makar Sankranti', kind: 'festival', aliases: ['pongal', 'makar sankranti', 'sankranti', 'sankranthi', 'uttarayan'],
+    regions: ['Tamil Nadu', 'Andhra Pradesh', 'Telangana', 'Karnataka', 'Gujarat'], leadDays: 5, trailDays: 2,
+    dates: { 2022: '2022-01-14', 2023: '2023-01-15', 2024: '2024-01-15', 2025: '2025-01-14', 2026: '2026-01-15', 2027: '2027-01-15', 2028: '2028-01-15' }
+  },
+  {
+    key: 'ganesh_chaturthi', name: 'Ganesh Chaturthi', kind: 'festival', aliases: ['ganesh chaturthi', 'ganeshotsav', 'ganpati', 'vinayaka chaturthi'],
+    regions: ['Maharashtra', 'Karnataka', 'Goa', 'Telangana'], leadDays: 7, trailDays: 2,
+    dates: { 2022: '2022-08-31', 2023: '2023-09-19', 2024: '2024-09-07', 2025: '2025-08-27', 2026: '2026-09-14', 2027: '2027-09-04', 2028: '2028-08-23' }
+  },
+  {
+    key: 'raksha_bandhan', name: 'Raksha Bandhan', kind: 'festival', aliases: ['raksha bandhan', 'rakshabandhan', 'rakhi'],
+    leadDays: 7, trailDays: 0,
+    dates: { 2022: '2022-08-11', 2023: '2023-08-30', 2024: '2024-08-19', 2025: '2025-08-09', 2026: '2026-08-28', 2027: '2027-08-17', 2028: '2028-08-05' }
+  },
+  {
+    key: 'ugadi', name: 'Ugadi and Gudi Padwa', kind: 'festival', aliases: ['ugadi', 'yugadi', 'gudi padwa'],
+    regions: ['Karnataka', 'Andhra Pradesh', 'Telangana', 'Maharashtra'], leadDays: 5, trailDays: 0,
+    dates: { 2022: '2022-04-02', 2023: '2023-03-22', 2024: '2024-04-09', 2025: '2025-03-30', 2026: '2026-03-19', 2027: '2027-04-07', 2028: '2028-03-27' }
+  },
+  {
+    key: 'baisakhi', name: 'Baisakhi', kind: 'festival', aliases: ['baisakhi', 'vaisakhi'],
+    regions: ['Punjab', 'Haryana'], leadDays: 5, trailDays: 0,
+    dates: { 2022: '2022-04-14', 2023: '2023-04-14', 2024: '2024-04-13', 2025: '2025-04-13', 2026: '2026-04-14', 2027: '2027-04-14', 2028: '2028-04-13' }
+  },
+  {
+    key: 'bihu', name: 'Rongali Bihu', kind: 'festival', aliases: ['bihu', 'rongali bihu', 'bohag bihu'],
+    regions: ['Assam'], leadDays: 5, trailDays: 2,
+    dates: everyYear('04-14')
+  },
+  {
+    key: 'christmas', name: 'Christmas', kind: 'festival', aliases: ['christmas', 'xmas'],
+    leadDays: 10, trailDays: 0,
+    dates: everyYear('12-25')
+  }
+];
+
+const SEASONS: SeasonDefinition[] = [
+  {
+    // Auspicious muhurat dates cluster here; the Kharmas month in between has almost no weddings
+    key: 'wedding_season', name: 'Wedding season', kind: 'season', aliases: ['wedding season', 'shaadi season', 'shadi season', 'marriage season', 'saadi season'],
+    windows: [{ start: '01-15', end: '03-10' }, { start: '04-15', end: '06-15' }, { start: '11-15', end: '12-15' }]
+  },
+  {
+    key: 'eoss_summer', name: 'Summer end of season sale', kind: 'sale', aliases: ['summer eoss', 'summer end of season sale', 'summer sale'],
+    windows: [{ start: '06-20', end: '07-31' }]
+  },
+  {
+    key: 'eoss_winter', name: 'Winter end of season sale', kind: 'sale', aliases: ['winter eoss', 'winter end of season sale', 'winter sale'],
+    windows: [{ start: '12-20', end: '01-31' }]
+  }
+];
+
+// Either end of season sale, for a question that does not say which
+const EOSS_ALIASES = ['eoss', 'end of season sale'];
+
+const BASELINE_DAYS = 28;
+const MIN_BASELINE_DAYS = 7;
+const TOP_GROUPS = 5;
+const FOCUS_GROUPS = 15;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toTime = (day: string) => Date.parse(`${day}T00:00:00Z`);
+const addDays = (day: string, days: number) => new Date(toTime(day) + days * DAY_MS).toISOString().slice(0, 10);
+const daysBetween = (from: string, to: string) => Math.round((toTime(to) - toTime(from)) / DAY_MS) + 1;
+
+function buildOccurrences(): FestivalOccurrence[] {
+  const festivals = FESTIVALS.flatMap(({ key, name, kind, regions, leadDays, trailDays, dates }) =>
+    Object.entries(dates).map(([year, date]) => ({
+      key, name, kind, year: Number(year), date,
+      start: addDays(date, -leadDays),
+      end: addDays(date, trailDays),
+      ...(regions ? { regions } : {})
+    })));
+  const seasons = SEASONS.flatMap(({ key, name, kind, windows }) => CALENDAR_YEARS.flatMap(year => windows.map(window => {
+    const start = `${year}-${window.start}`;
+    const end = window.end < window.start ? `${year + 1}-${window.end}` : `${year}-${window.end}`;
+    return { key, name, kind, year, date: start, start, end };
+  })));
+  return [...festivals, ...seasons].sort((a, b) => a.start.localeCompare(b.start));
+}
+
+const OCCURRENCES = buildOccurrences();
+
+// Occurrences whose window overlaps the range, in date order
+export function getFestivalOccurrences(from = '0000-01-01', to = '9999-12-31'): FestivalOccurrence[] {
+  return OCCURRENCES.filter(occurrence => occurrence.end >= from && occurrence.start <= to);
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest phrase first, so "eid ul adha" is Bakrid before "eid" reads as Eid ul-Fitr
+const ALIASES = [
+  ...[...FESTIVALS, ...SEASONS].flatMap(({ key, aliases }) => aliases.map(alias => ({ alias, keys: [key] }))),
+  ...EOSS_ALIASES.map(alias => ({ alias, keys: ['eoss_summer', 'eoss_winter'] }))
+].sort((a, b) => b.alias.length - a.alias.length);
+
+const PAST = /\b(last|previous|pichhl[ie]|pichle|pichhla|pichla)\b/;
+const NEXT = /\b(next|upcoming|agl[ie]|agla|aane wal[ie])\b/;
+const CURRENT = /\b(this|current|is saal)\b/;
+
+/**
+ * Find the festival a question is about and which year it means, e.g. "sales
+ * of kurtis last Diwali season". "last" is the latest one already started by
+ * today, "next" the first one still ahead, "this" the one in the current year,
+ * and an explicit year wins over all of them. Without any of these the latest
+ * one already started is assumed, since questions are usually about the past.
+ */
+export function resolveFestivalQuery(query: string, today: string = formatISTDate(new Date())): FestivalOccurrence | null {
+  const text = ` ${query.toLowerCase().replace(/[-_'’]/g, ' ').replace(/\s+/g, ' ')} `;
+  const match = ALIASES.find(({ alias }) => new RegExp(`\\b${escapeRegExp(alias)}\\b`).test(text));
+  if (!match) return null;
+
+  const candidates = OCCURRENCES.filter(occurrence => match.keys.includes(occurrence.key));
+  const year = text.match(/\b(20\d{2})\b/);
+  if (year) {
+    return candidates.filter(occurrence => occurrence.year === Number(year[1])).pop() ?? null;
+  }
+  if (NEXT.test(text)) {
+    return candidates.find(occurrence => occurrence.start > today) ?? null;
+  }
+  if (CURRENT.test(text) && !PAST.test(text)) {
+    const current = candidates.filter(occurrence => occurrence.year === Number(today.slice(0, 4)));
+    return current.find(occurrence => occurrence.start <= today && occurrence.end >= today)
+      ?? current.filter(occurrence => occurrence.start <= today).pop()
+      ?? current[0]
+      ?? null;
+  }
+  return candidates.filter(occurrence => occurrence.start <= today).pop() ?? null;
+}
+
+interface DailyTotals {
+  revenue: number;
+  quantity: number;
+}
+
+type DailyIndex = Map<string, DailyTotals>;
+
+function indexByDay(rows: SalesData[]): DailyIndex {
+  const days: DailyIndex = new Map();
+  rows.forEach(sale => {
+    const day = getDateKey(sale.Date);
+    const entry = days.get(day) || { revenue: 0, quantity: 0 };
+    entry.revenue += sale.Amount || 0;
+    entry.quantity += sale.Quantity || 0;
+    days.set(day, entry);
+  });
+  return days;
+}
+
+function sumDays(days: DailyIndex, dates: string[]): DailyTotals {
+  return dates.reduce((total, day) => {
+    const entry = days.get(day);
+    return entry ? { revenue: total.revenue + entry.revenue, quantity: total.quantity + entry.quantity } : total;
+  }, { revenue: 0, quantity: 0 });
+}
+
+function listDays(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) days.push(day);
+  return days;
+}
+
+// The four weeks before the window, without the run-up to any other festival
+function getBaselineDays(occurrence: FestivalOccurrence, firstDate: string): string[] | null {
+  const from = addDays(occurrence.start, -BASELINE_DAYS);
+  if (from < firstDate) return null;
+  const festivals = OCCURRENCES.filter(other => other.kind === 'festival' && other !== occurrence);
+  const days = listDays(from, addDays(occurrence.start, -1))
+    .filter(day => !festivals.some(other => other.start <= day && other.end >= day));
+  return days.length >= MIN_BASELINE_DAYS ? days : null;
+}
+
+const uplift = (daily: number, baseline: number | null) => baseline ? daily / baseline - 1 : null;
+
+function groupUplift(
+  orders: SalesData[],
+  getName: (sale: SalesData) => string,
+  windowDays: string[],
+  baselineDays: string[] | null,
+  limit: number
+): GroupUplift[] {
+  const groups = new Map<string, { name: string; rows: SalesData[] }>();
+  const inWindow = new Set(windowDays);
+  const inBaseline = new Set(baselineDays ?? []);
+  orders.forEach(sale => {
+    const day = getDateKey(sale.Date);
+    if (!inWindow.has(day) && !inBaseline.has(day)) return;
+    const name = getName(sale);
+    const group = groups.get(name) || { name, rows: [] };
+    group.rows.push(sale);
+    groups.set(name, group);
+  });
+
+  return Array.from(groups.values())
+    .map(group => {
+      const days = indexByDay(group.rows);
+      const revenue = sumDays(days, windowDays).revenue;
+      const baseline = baselineDays ? sumDays(days, baselineDays).revenue / baselineDays.length : null;
+      return { name: group.name, revenue, uplift: uplift(revenue / windowDays.length, baseline) };
+    })
+    .filter(group => group.revenue > 0)
+    .sort((a, b) => b.revenue - a.revenue)
+    .slice(0, limit);
+}
+
+function measureUplift(orders: SalesData[], days: DailyIndex, occurrence: FestivalOccurrence, firstDate: string, lastDate: string, limit: number): FestivalUplift | null {
+  const windowDays = listDays(occurrence.start > firstDate ? occurrence.start : firstDate, occurrence.end < lastDate ? occurrence.end : lastDate);
+  if (windowDays.length === 0) return null;
+
+  const baselineDays = getBaselineDays(occurrence, firstDate);
+  const totals = sumDays(days, windowDays);
+  const dailyRevenue = totals.revenue / windowDays.length;
+  const baselineDailyRevenue = baselineDays ? sumDays(days, baselineDays).revenue / baselineDays.length : null;
+
+  return {
+    ...occurrence,
+    revenue: totals.revenue,
+    quantity: totals.quantity,
+    daysCovered: windowDays.length,
+    partial: windowDays.length < daysBetween(occurrence.start, occurrence.end),
+    dailyRevenue,
+    baselineDailyRevenue,
+    uplift: uplift(dailyRevenue, baselineDailyRevenue),
+    // By name, as the product master has already made names canonical
+    byProduct: groupUplift(orders, sale => String(sale.Product ?? '').trim(), windowDays, baselineDays, limit),
+    byCategory: groupUplift(orders, sale => String(sale.Category ?? '').trim() || 'Uncategorized', windowDays, baselineDays, limit)
+  };
+}
+
+function getOrders(salesData: SalesData[]): { orders: SalesData[]; firstDate: string; lastDate: string } | null {
+  const orders = salesData.filter(sale => !isReturnSale(sale) && typeof sale.Date === 'string' && /^\d{4}-\d{2}-\d{2}/.test(sale.Date));
+  if (orders.length === 0) return null;
+  const dates = orders.map(sale => getDateKey(sale.Date)).sort();
+  return { orders, firstDate: dates[0], lastDate: dates[dates.length - 1] };
+}
+
+// One festival in detail, with more products and categories, for a question that names it
+export function analyzeFestival(salesData: SalesData[], occurrence: FestivalOccurrence): FestivalUplift | null {
+  const data = getOrders(salesData);
+  if (!data) return null;
+  return measureUplift(data.orders, indexByDay(data.orders), occurrence, data.firstDate, data.lastDate, FOCUS_GROUPS);
+}
+
+/**
+ * Revenue during each festival, season and sale the data covers, against the
+ * four weeks before it, overall and for the biggest products and categories.
+ */
+export function summarizeFestivals(salesData: SalesData[]): FestivalSummary | undefined {
+  const data = getOrders(salesData);
+  if (!data) return undefined;
+
+  const days = indexByDay(data.orders);
+  const periods = getFestivalOccurrences(data.firstDate, data.lastDate)
+    .map(occurrence => measureUplift(data.orders, days, occurrence, data.firstDate, data.lastDate, TOP_GROUPS))
+    .filter(Boolean);
+  if (periods.length === 0) return undefined;
+
+  const festivals = new Map<string, { key: string; name: string; occurrences: number; uplifts: number[] }>();
+  periods.forEach(period => {
+    const entry = festivals.get(period.key) || { key: period.key, name: period.name, occurrences: 0, uplifts: [] };
+    entry.occurrences += 1;
+    if (period.uplift !== null) entry.uplifts.push(period.uplift);
+    festivals.set(period.key, entry);
+  });
+
+  return {
+    periods,
+    byFestival: Array.from(festivals.values())
+      .map(({ key, name, occurrences, uplifts }) => ({
+        key,
+        name,
+        occurrences,
+        averageUplift: uplifts.length > 0 ? uplifts.reduce((sum, value) => sum + value, 0) / uplifts.length : null
+      }))
+      .sort((a, b) => (b.averageUplift ?? -Infinity) - (a.averageUplift ?? -Infinity))
+  };
+}
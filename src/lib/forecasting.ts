@@ -0,0 +1,358 @@
+import { getProductKey, type InventoryData, type SalesData } from './data-processing';
+import { isReturnSale } from './returns';
+import { aggregateSales, getNextPeriod, getPeriodKey, getPreviousPeriod } from './time-series';
+
+export type ForecastModel = 'moving_average' | 'seasonal_naive' | 'exponential_smoothing' | 'holt_winters';
+
+export interface ForecastPoint {
+  // Monday of the forecast week
+  week: string;
+  value: number;
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+}
+
+export interface ForecastAccuracy {
+  // Errors on the last weeks of history, forecast from the weeks before them
+  backtestWeeks: number;
+  mae: number;
+  // Absolute error as a share of actual sales; null when nothing sold in the backtest weeks
+  wape: number | null;
+  // Positive when the model forecast more than sold
+  bias: number;
+  // Every model that could run on this history, best first
+  compared: Array<{ model: ForecastModel; mae: number }>;
+}
+
+export interface SeriesForecast {
+  model: ForecastModel;
+  accuracy: ForecastAccuracy;
+  points: ForecastPoint[];
+  total: number;
+}
+
+export interface ProductForecast {
+  // getProductKey of the product, for joining with inventory
+  key: string;
+  product: string;
+  quantity: SeriesForecast;
+  // Quantity forecast priced at the product's recent average selling price
+  revenue: ForecastPoint[];
+  totalRevenue: number;
+}
+
+export interface RestockForecast {
+  product: string;
+  stock: number;
+  // Units expected to sell over the horizon, and the 80% upper bound
+  forecastDemand: number;
+  forecastDemandHigh: number;
+  // Null when the forecast sells no units
+  weeksOfCover: number | null;
+  // Units to order to cover the upper bound
+  suggestedOrder: number;
+}
+
+export interface DemandForecast {
+  horizon: number;
+  // First forecast week; the incomplete week the data ends in is forecast rather than trained on
+  startWeek: string;
+  quantity: SeriesForecast;
+  revenue: SeriesForecast;
+  byProduct: ProductForecast[];
+  // Products that run out within the horizon, soonest first
+  restock: RestockForecast[];
+  // Products with too few weeks of sales to forecast
+  productsWithoutHistory: number;
+}
+
+export const MIN_HORIZON = 4;
+export const MAX_HORIZON = 12;
+const DEFAULT_HORIZON = 8;
+// Weeks a model needs to fit; forecasting also holds MIN_HORIZON weeks back to score it
+const MIN_TRAINING = 8;
+const SEASON = 52;
+const MOVING_AVERAGE_WEEKS = 4;
+// Damping keeps a short upswing from being projected for months
+const DAMPING = 0.9;
+const PRICE_WEEKS = 12;
+const TOP_PRODUCTS = 20;
+const Z80 = 1.2816;
+const Z95 = 1.96;
+
+const ALPHAS = [0.1, 0.2, 0.4, 0.6];
+const BETAS = [0.05, 0.1, 0.2];
+const GAMMAS = [0.05, 0.1, 0.3];
+
+interface FittedModel {
+  forecast: (horizon: number) => number[];
+  // One-step-ahead errors over the history, for the interval width
+  residuals: number[];
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+const mean = (values: number[]) => values.length > 0 ? sum(values) / values.length : 0;
+const sse = (residuals: number[]) => residuals.reduce((total, value) => total + value * value, 0);
+
+function fitMovingAverage(history: number[]): FittedModel {
+  const window = Math.min(MOVING_AVERAGE_WEEKS, history.length);
+  const level = mean(history.slice(-window));
+  const residuals = history.slice(window).map((value, index) => value - mean(history.slice(index, index + window)));
+  return { forecast: horizon => Array(horizon).fill(level), residuals };
+}
+
+// The same week last year
+function fitSeasonalNaive(history: number[]): FittedModel {
+  const residuals = history.slice(SEASON).map((value, index) => value - history[index]);
+  return {
+    forecast: horizon => Array.from({ length: horizon }, (_, step) => history[history.length - SEASON + (step % SEASON)]),
+    residuals
+  };
+}
+
+// Damped-trend Holt smoothing, with an additive weekly-of-year season when gamma is given
+function runSmoothing(history: number[], alpha: number, beta: number, gamma?: number): FittedModel {
+  const seasonal = gamma !== undefined;
+  let level: number;
+  let trend: number;
+  let seasons: number[] = [];
+  let start: number;
+  if (seasonal) {
+    const first = mean(history.slice(0, SEASON));
+    level = first;
+    trend = (mean(history.slice(SEASON, 2 * SEASON)) - first) / SEASON;
+    seasons = history.slice(0, SEASON).map(value => value - first);
+    start = SEASON;
+  } else {
+    level = history[0];
+    trend = history.length > 1 ? history[1] - history[0] : 0;
+    start = 1;
+  }
+
+  const residuals: number[] = [];
+  for (let t = start; t < history.length; t++) {
+    const season = seasonal ? seasons[t % SEASON] : 0;
+    const predicted = level + DAMPING * trend + season;
+    residuals.push(history[t] - predicted);
+
+    const previousLevel = level;
+    level = alpha * (history[t] - season) + (1 - alpha) * (level + DAMPING * trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * DAMPING * trend;
+    if (seasonal) seasons[t % SEASON] = gamma * (history[t] - level) + (1 - gamma) * season;
+  }
+
+  const n = history.length;
+  return {
+    forecast: horizon => {
+      let damped = 0;
+      return Array.from({ length: horizon }, (_, step) => {
+        damped += Math.pow(DAMPING, step + 1);
+        return level + damped * trend + (seasonal ? seasons[(n + step) % SEASON] : 0);
+      });
+    },
+    residuals
+  };
+}
+
+// Smoothing weights picked by the smallest one-step error over the history
+function fitSmoothing(history: number[], seasonal: boolean): FittedModel {
+  let best: FittedModel | null = null;
+  let bestError = Infinity;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const gamma of seasonal ? GAMMAS : [undefined]) {
+        const fitted = runSmoothing(history, alpha, beta, gamma);
+        const error = sse(fitted.residuals);
+        if (error < bestError) {
+          best = fitted;
+          bestError = error;
+        }
+      }
+    }
+  }
+  return best;
+}
+
+// Simplest first, so a tie in the backtest goes to the simpler model
+const MODELS: Array<{ model: ForecastModel; minHistory: number; fit: (history: number[]) => FittedModel }> = [
+  { model: 'moving_average', minHistory: MIN_TRAINING, fit: fitMovingAverage },
+  { model: 'seasonal_naive', minHistory: SEASON, fit: fitSeasonalNaive },
+  { model: 'exponential_smoothing', minHistory: MIN_TRAINING, fit: history => fitSmoothing(history, false) },
+  { model: 'holt_winters', minHistory: 2 * SEASON, fit: history => fitSmoothing(history, true) }
+];
+
+const clampForecast = (values: number[]) => values.map(value => Math.max(0, value));
+
+/**
+ * Forecast a weekly series. Each model that the history is long enough for is
+ * backtested on the last weeks, the one with the lowest mean absolute error is
+ * refitted on the full history, and intervals widen with the square root of
+ * the weeks ahead from its one-step errors.
+ */
+export function forecastSeries(history: number[], lastWeek: string, horizon: number = DEFAULT_HORIZON): SeriesForecast | null {
+  if (history.length < MIN_TRAINING + MIN_HORIZON) return null;
+
+  const backtestWeeks = Math.min(horizon, Math.max(MIN_HORIZON, Math.floor(history.length / 4)));
+  const training = history.slice(0, -backtestWeeks);
+  const actual = history.slice(-backtestWeeks);
+
+  const compared = MODELS
+    .filter(({ minHistory }) => training.length >= minHistory)
+    .map(({ model, fit }) => {
+      const predicted = clampForecast(fit(training).forecast(backtestWeeks));
+      const errors = predicted.map((value, index) => value - actual[index]);
+      return { model, mae: mean(errors.map(Math.abs)), errors };
+    })
+    .sort((a, b) => a.mae - b.mae);
+  const chosen = compared[0];
+
+  const fitted = MODELS.find(({ model }) => model === chosen.model).fit(history);
+  const sigma = Math.sqrt(mean(fitted.residuals.map(value => value * value)));
+  const actualTotal = sum(actual);
+  const values = clampForecast(fitted.forecast(horizon));
+
+  let week = lastWeek;
+  const points = values.map((value, step) => {
+    week = getNextPeriod(week, 'week');
+    const spread = sigma * Math.sqrt(step + 1);
+    return {
+      week,
+      value,
+      lower80: Math.max(0, value - Z80 * spread),
+      upper80: value + Z80 * spread,
+      lower95: Math.max(0, value - Z95 * spread),
+      upper95: value + Z95 * spread
+    };
+  });
+
+  return {
+    model: chosen.model,
+    accuracy: {
+      backtestWeeks,
+      mae: chosen.mae,
+      wape: actualTotal > 0 ? sum(chosen.errors.map(Math.abs)) / actualTotal : null,
+      bias: mean(chosen.errors),
+      compared: compared.map(({ model, mae }) => ({ model, mae }))
+    },
+    points,
+    total: sum(values)
+  };
+}
+
+const scalePoint = (point: ForecastPoint, factor: number): ForecastPoint => ({
+  week: point.week,
+  value: point.value * factor,
+  lower80: point.lower80 * factor,
+  upper80: point.upper80 * factor,
+  lower95: point.lower95 * factor,
+  upper95: point.upper95 * factor
+});
+
+// Stock summed across godowns and branches, by product
+function getStock(inventoryData: InventoryData[]): Map<string, { product: string; stock: number }> {
+  const stock = new Map<string, { product: string; stock: number }>();
+  inventoryData.forEach(item => {
+    const key = getProductKey(item);
+    const entry = stock.get(key) || { product: item.Product, stock: 0 };
+    entry.stock += item.Stock || 0;
+    stock.set(key, entry);
+  });
+  return stock;
+}
+
+// Weeks until cumulative forecast demand passes the stock, interpolated within the week
+function getWeeksOfCover(stock: number, points: ForecastPoint[]): number | null {
+  if (sum(points.map(point => point.value)) === 0) return null;
+  let remaining = Math.max(stock, 0);
+  for (let index = 0; index < points.length; index++) {
+    const demand = points[index].value;
+    if (demand >= remaining) return index + (demand > 0 ? remaining / demand : 0);
+    remaining -= demand;
+  }
+  // Beyond the horizon: extend at the average forecast rate
+  return points.length + remaining / mean(points.map(point => point.value));
+}
+
+/**
+ * Weekly quantity and revenue forecasts for the shop and for each product with
+ * enough history, plus the stocked products that the forecast says will run
+ * out within the horizon.
+ */
+export function summarizeForecast(salesData: SalesData[], inventoryData: InventoryData[], horizon: number = DEFAULT_HORIZON): DemandForecast | undefined {
+  const weeksAhead = Math.min(MAX_HORIZON, Math.max(MIN_HORIZON, Math.round(horizon)));
+  const orders = salesData.filter(sale => !isReturnSale(sale) && typeof sale.Date === 'string' && /^\d{4}-\d{2}-\d{2}/.test(sale.Date));
+  if (orders.length === 0) return undefined;
+
+  // Train on complete weeks only; a week that ends on a Sunday is complete
+  const lastDate = orders.map(sale => sale.Date.slice(0, 10)).sort().pop();
+  const lastWeek = getPeriodKey(lastDate, 'week');
+  const isComplete = new Date(`${lastDate}T00:00:00Z`).getUTCDay() === 0;
+  const trainedThrough = isComplete ? lastWeek : getPreviousPeriod(lastWeek, 'week');
+
+  const weekly = aggregateSales(orders, 'week', trainedThrough);
+  const quantity = forecastSeries(weekly.map(point => point.quantity), trainedThrough, weeksAhead);
+  const revenue = forecastSeries(weekly.map(point => point.revenue), trainedThrough, weeksAhead);
+  if (!quantity || !revenue) return undefined;
+
+  const groups = new Map<string, { product: string; rows: SalesData[] }>();
+  orders.forEach(sale => {
+    const key = getProductKey(sale);
+    const group = groups.get(key) || { product: sale.Product, rows: [] };
+    group.rows.push(sale);
+    groups.set(key, group);
+  });
+
+  const products = new Map<string, ProductForecast>();
+  let productsWithoutHistory = 0;
+  groups.forEach((group, key) => {
+    // Weeks before the product's first sale are not history, but weeks after its last sale are zeros
+    const series = aggregateSales(group.rows, 'week', trainedThrough);
+    const forecast = forecastSeries(series.map(point => point.quantity), trainedThrough, weeksAhead);
+    if (!forecast) {
+      productsWithoutHistory++;
+      return;
+    }
+    const recent = series.slice(-PRICE_WEEKS);
+    const units = sum(recent.map(point => point.quantity));
+    const price = units > 0 ? sum(recent.map(point => point.revenue)) / units : 0;
+    products.set(key, {
+      key,
+      product: group.product,
+      quantity: forecast,
+      revenue: forecast.points.map(point => scalePoint(point, price)),
+      totalRevenue: forecast.total * price
+    });
+  });
+
+  const restock: RestockForecast[] = [];
+  getStock(inventoryData).forEach((entry, key) => {
+    const forecast = products.get(key);
+    if (!forecast) return;
+    const points = forecast.quantity.points;
+    const weeksOfCover = getWeeksOfCover(entry.stock, points);
+    if (weeksOfCover === null || weeksOfCover >= weeksAhead) return;
+    const forecastDemandHigh = sum(points.map(point => point.upper80));
+    restock.push({
+      product: entry.product,
+      stock: entry.stock,
+      forecastDemand: forecast.quantity.total,
+      forecastDemandHigh,
+      weeksOfCover,
+      suggestedOrder: Math.max(0, Math.ceil(forecastDemandHigh - entry.stock))
+    });
+  });
+
+  return {
+    horizon: weeksAhead,
+    startWeek: getNextPeriod(trainedThrough, 'week'),
+    quantity,
+    revenue,
+    byProduct: Array.from(products.values())
+      .sort((a, b) => b.totalRevenue - a.totalRevenue)
+      .slice(0, TOP_PRODUCTS),
+    restock: restock.sort((a, b) => a.weeksOfCover - b.weeksOfCover),
+    productsWithoutHistory
+  };
+}
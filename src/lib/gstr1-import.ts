@@ -0,0 +1,145 @@
+import { type RawTable } from './data-processing';
+import { normalizeDate } from './date-parsing';
+
+interface ItemDetail {
+  txval?: number;
+  rt?: number;
+  iamt?: number;
+  camt?: number;
+  samt?: number;
+  csamt?: number;
+  hsn_sc?: string;
+}
+
+interface Invoice {
+  inum?: string;
+  idt?: string;
+  val?: number;
+  pos?: string;
+  // Export invoices list the item fields directly instead of under itm_det
+  itms?: Array<ItemDetail & { itm_det?: ItemDetail }>;
+}
+
+interface HsnSummary {
+  hsn_sc?: string;
+  desc?: string;
+  rt?: number;
+}
+
+interface Gstr1Return {
+  gstin?: string;
+  fp?: string;
+  b2b?: Array<{ ctin?: string; inv?: Invoice[] }>;
+  b2cl?: Array<{ pos?: string; inv?: Invoice[] }>;
+  b2cs?: Array<ItemDetail & { pos?: string; sply_ty?: string }>;
+  exp?: Array<{ exp_typ?: string; inv?: Invoice[] }>;
+  hsn?: { data?: HsnSummary[] };
+}
+
+export const GSTR1_SALES_HEADERS = [
+  'Date', 'Product', 'Category', 'Quantity', 'Amount', 'Location',
+  'Invoice_No', 'Invoice_Value', 'Taxable_Value', 'GST_Rate', 'IGST', 'CGST', 'SGST', 'Cess',
+  'Supply_Type', 'Customer_GSTIN'
+];
+
+// GST state codes used for place of supply
+const GST_STATES: Record<string, string> = {
+  '01': 'Jammu and Kashmir', '02': 'Himachal Pradesh', '03': 'Punjab', '04': 'Chandigarh',
+  '05': 'Uttarakhand', '06': 'Haryana', '07': 'Delhi', '08': 'Rajasthan', '09': 'Uttar Pradesh',
+  '10': 'Bihar', '11': 'Sikkim', '12': 'Arunachal Pradesh', '13': 'Nagaland', '14': 'Manipur',
+  '15': 'Mizoram', '16': 'Tripura', '17': 'Meghalaya', '18': 'Assam', '19': 'West Bengal',
+  '20': 'Jharkhand', '21': 'Odisha', '22': 'Chhattisgarh', '23': 'Madhya Pradesh', '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu', '27': 'Maharashtra', '29': 'Karnataka',
+  '30': 'Goa', '31': 'Lakshadweep', '32': 'Kerala', '33': 'Tamil Nadu', '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands', '36': 'Telangana', '37': 'Andhra Pradesh', '38': 'Ladakh',
+  '97': 'Other Territory'
+};
+
+export function isJsonFile(file: File): boolean {
+  return /\.json$/i.test(file.name);
+}
+
+export function isGstr1Return(value: unknown): value is Gstr1Return {
+  if (!value || typeof value !== 'object') return false;
+  const data = value as Record<string, unknown>;
+  return typeof data.gstin === 'string' && typeof data.fp === 'string'
+    && ['b2b', 'b2cl', 'b2cs', 'exp'].some(section => Array.isArray(data[section]));
+}
+
+export function getStateName(code: string | undefined): string {
+  if (!code) return '';
+  return GST_STATES[code.padStart(2, '0')] || code;
+}
+
+// Filing period "042024" covers April 2024
+function periodStart(fp: string | undefined): string {
+  const match = (fp || '').match(/^(\d{2})(\d{4})$/);
+  return match ? `${match[2]}-${match[1]}-01` : '';
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Flatten a GSTR-1 return into one sales row per invoice line. Invoice lines
+ * carry no product or HSN, so the HSN summary names the line when exactly one
+ * HSN code was filed at that tax rate; otherwise the line is named by its rate.
+ */
+export function parseGstr1(data: Gstr1Return): RawTable {
+  const hsnByRate = new Map<number, HsnSummary | null>();
+  (data.hsn?.data || []).forEach(entry => {
+    if (entry.rt === undefined) return;
+    hsnByRate.set(entry.rt, hsnByRate.has(entry.rt) ? null : entry);
+  });
+
+  const toRow = (detail: ItemDetail, supply: Record<string, unknown>) => {
+    const taxable = detail.txval || 0;
+    const tax = (detail.iamt || 0) + (detail.camt || 0) + (detail.samt || 0) + (detail.csamt || 0);
+    const hsn = detail.hsn_sc || hsnByRate.get(detail.rt ?? -1)?.hsn_sc || '';
+    const description = detail.hsn_sc ? '' : hsnByRate.get(detail.rt ?? -1)?.desc;
+
+    return {
+      Product: description || (hsn ? `HSN ${hsn}` : `GST ${detail.rt ?? 0}% supplies`),
+      Category: hsn,
+      // Returns report values, not item counts, so each line counts once
+      Quantity: 1,
+      // What the buyer paid for the line, so invoice lines add up to the invoice value
+      Amount: round(taxable + tax),
+      Taxable_Value: taxable,
+      GST_Rate: detail.rt ?? '',
+      IGST: detail.iamt || 0,
+      CGST: detail.camt || 0,
+      SGST: detail.samt || 0,
+      Cess: detail.csamt || 0,
+      ...supply
+    };
+  };
+
+  const invoiceRows = (invoice: Invoice, supply: Record<string, unknown>) =>
+    (invoice.itms || []).map(item => toRow(item.itm_det ?? item, {
+      Date: normalizeDate(invoice.idt) ?? invoice.idt ?? '',
+      Invoice_No: invoice.inum || '',
+      Invoice_Value: invoice.val ?? '',
+      ...supply,
+      Location: supply.Location || getStateName(invoice.pos)
+    }));
+
+  const rows = [
+    ...(data.b2b || []).flatMap(party => (party.inv || []).flatMap(invoice =>
+      invoiceRows(invoice, { Supply_Type: 'B2B', Customer_GSTIN: party.ctin || '' }))),
+    ...(data.b2cl || []).flatMap(group => (group.inv || []).flatMap(invoice =>
+      invoiceRows(invoice, { Supply_Type: 'B2CL', Customer_GSTIN: '', Location: getStateName(group.pos) }))),
+    ...(data.exp || []).flatMap(group => (group.inv || []).flatMap(invoice =>
+      invoiceRows(invoice, { Supply_Type: 'Export', Customer_GSTIN: '', Location: 'Outside India' }))),
+    // Small B2C supplies are filed as monthly totals per state and rate, with no invoice or date
+    ...(data.b2cs || []).map(entry => toRow(entry, {
+      Date: periodStart(data.fp),
+      Location: getStateName(entry.pos),
+      Invoice_No: '',
+      Invoice_Value: '',
+      Supply_Type: 'B2CS',
+      Customer_GSTIN: ''
+    }))
+  ];
+
+  return { headers: GSTR1_SALES_HEADERS, rows };
+}
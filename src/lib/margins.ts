@@ -0,0 +1,147 @@
+import { getProductKey, type InventoryData, type SalesData } from './data-processing';
+import { isReturnSale } from './returns';
+
+export interface MarginFigures {
+  revenue: number;
+  cost: number;
+  profit: number;
+  margin: number | null;
+  // Share of total gross profit, which can exceed 1 when other lines lose money
+  profitShare: number | null;
+}
+
+export interface MarginWarning {
+  product: string;
+  margin: number;
+  costPrice: number;
+  // Average realized price from sales, or the inventory price for products not yet sold
+  sellingPrice: number;
+  basis: 'sales' | 'price';
+}
+
+export interface MarginSummary {
+  // Sales of products with a cost price; the other figures cover only these
+  costedRevenue: number;
+  costedRevenueShare: number | null;
+  cost: number;
+  grossProfit: number;
+  grossMargin: number | null;
+  byProduct: Array<MarginFigures & { product: string }>;
+  byCategory: Array<MarginFigures & { category: string }>;
+  lowMargin: MarginWarning[];
+  // Products sold without a cost price in the inventory
+  productsWithoutCost: number;
+}
+
+// Below this a product barely covers shop overheads, let alone discounts and returns
+export const LOW_MARGIN = 0.15;
+const TOP_ENTRIES = 10;
+
+interface Totals {
+  revenue: number;
+  cost: number;
+}
+
+// One cost per product; godown rows of the same product are averaged by stock held
+function getCostPrices(inventoryData: InventoryData[]): Map<string, { costPrice: number; price: number | null; product: string; category: string }> {
+  const weighted = new Map<string, { cost: number; units: number; count: number; sum: number; price: number | null; product: string; category: string }>();
+  inventoryData.forEach(item => {
+    if (typeof item.Cost_Price !== 'number' || !isFinite(item.Cost_Price)) return;
+    const key = getProductKey(item);
+    const entry = weighted.get(key) || { cost: 0, units: 0, count: 0, sum: 0, price: null, product: item.Product, category: item.Category || '' };
+    const units = Math.max(item.Stock || 0, 0);
+    entry.cost += item.Cost_Price * units;
+    entry.units += units;
+    entry.sum += item.Cost_Price;
+    entry.count += 1;
+    entry.price = entry.price ?? (typeof item.Price === 'number' ? item.Price : null);
+    weighted.set(key, entry);
+  });
+
+  return new Map(Array.from(weighted.entries()).map(([key, entry]) => [key, {
+    costPrice: entry.units > 0 ? entry.cost / entry.units : entry.sum / entry.count,
+    price: entry.price,
+    product: entry.product,
+    category: entry.category
+  }]));
+}
+
+function toFigures({ revenue, cost }: Totals, grossProfit: number): MarginFigures {
+  const profit = revenue - cost;
+  return {
+    revenue,
+    cost,
+    profit,
+    margin: revenue !== 0 ? profit / revenue : null,
+    profitShare: grossProfit !== 0 ? profit / grossProfit : null
+  };
+}
+
+/**
+ * Gross margin from the inventory's cost prices: overall, per product and per
+ * category, with each one's share of profit. Products below LOW_MARGIN are
+ * flagged from their realized sales price, or from the list price if unsold.
+ */
+export function summarizeMargins(salesData: SalesData[], inventoryData: InventoryData[]): MarginSummary | undefined {
+  const costs = getCostPrices(inventoryData);
+  if (costs.size === 0) return undefined;
+
+  const orders = salesData.filter(sale => !isReturnSale(sale));
+  const products = new Map<string, Totals & { product: string; category: string; units: number }>();
+  const uncosted = new Set<string>();
+  orders.forEach(sale => {
+    const key = getProductKey(sale);
+    const cost = costs.get(key);
+    if (!cost) {
+      uncosted.add(key);
+      return;
+    }
+    const entry = products.get(key) || { product: sale.Product, category: sale.Category || cost.category, revenue: 0, cost: 0, units: 0 };
+    entry.revenue += sale.Amount || 0;
+    entry.cost += (sale.Quantity || 0) * cost.costPrice;
+    entry.units += sale.Quantity || 0;
+    products.set(key, entry);
+  });
+
+  const categories = new Map<string, Totals>();
+  products.forEach(entry => {
+    const name = entry.category || 'Uncategorized';
+    const category = categories.get(name) || { revenue: 0, cost: 0 };
+    category.revenue += entry.revenue;
+    category.cost += entry.cost;
+    categories.set(name, category);
+  });
+
+  const costedRevenue = Array.from(products.values()).reduce((sum, entry) => sum + entry.revenue, 0);
+  const cost = Array.from(products.values()).reduce((sum, entry) => sum + entry.cost, 0);
+  const grossProfit = costedRevenue - cost;
+  const totalRevenue = orders.reduce((sum, sale) => sum + (sale.Amount || 0), 0);
+
+  const warnings: MarginWarning[] = [];
+  costs.forEach((entry, key) => {
+    const sold = products.get(key);
+    const sellingPrice = sold && sold.units > 0 ? sold.revenue / sold.units : entry.price;
+    if (!sellingPrice) return;
+    const margin = (sellingPrice - entry.costPrice) / sellingPrice;
+    if (margin < LOW_MARGIN) {
+      warnings.push({ product: entry.product, margin, costPrice: entry.costPrice, sellingPrice, basis: sold ? 'sales' : 'price' });
+    }
+  });
+
+  return {
+    costedRevenue,
+    costedRevenueShare: totalRevenue !== 0 ? costedRevenue / totalRevenue : null,
+    cost,
+    grossProfit,
+    grossMargin: costedRevenue !== 0 ? grossProfit / costedRevenue : null,
+    byProduct: Array.from(products.values())
+      .map(entry => ({ product: entry.product, ...toFigures(entry, grossProfit) }))
+      .sort((a, b) => b.profit - a.profit)
+      .slice(0, TOP_ENTRIES),
+    byCategory: Array.from(categories.entries())
+      .map(([category, totals]) => ({ category, ...toFigures(totals, grossProfit) }))
+      .sort((a, b) => b.profit - a.profit),
+    lowMargin: warnings.sort((a, b) => a.margin - b.margin).slice(0, TOP_ENTRIES),
+    productsWithoutCost: uncosted.size
+  };
+}
@@ -0,0 +1,173 @@
+import { type RawTable } from './data-processing';
+import { normalizeHeader } from './column-mapping';
+import { parseIndianNumber } from './number-parsing';
+
+export type MarketplaceChannel = 'Amazon' | 'Flipkart' | 'Meesho' | 'Shopify';
+
+// Orders that never turned into revenue: cancelled before dispatch, returned by the buyer, or returned to origin
+export type ExcludedOrderStatus = 'cancelled' | 'returned' | 'rto';
+
+export interface MarketplaceMatch {
+  channel: MarketplaceChannel;
+  excluded: Record<ExcludedOrderStatus, number>;
+}
+
+interface MarketplacePreset {
+  channel: MarketplaceChannel;
+  // Normalized headers that only this report has
+  signature: string[];
+  date: string;
+  product: string;
+  quantity: string;
+  // First column present wins
+  amount: string[];
+  // The amount column is a per-unit price rather than the line total
+  unitPrice?: boolean;
+  location: string[];
+  orderId: string;
+  sku: string;
+  status: string[];
+  // A date in this column means the order was cancelled
+  cancelledAt?: string;
+  // Order-level columns only filled on an order's first line item
+  fillDown?: { key: string; columns: string[] };
+}
+
+export const MARKETPLACE_SALES_HEADERS = ['Date', 'Product', 'Category', 'Quantity', 'Amount', 'Location', 'Channel', 'Order_ID', 'SKU', 'Order_Status'];
+
+const PRESETS: MarketplacePreset[] = [
+  {
+    channel: 'Amazon',
+    signature: ['amazon order id', 'purchase date', 'order status', 'item price'],
+    date: 'purchase date',
+    product: 'product name',
+    quantity: 'quantity',
+    amount: ['item price'],
+    location: ['ship city', 'ship state'],
+    orderId: 'amazon order id',
+    sku: 'sku',
+    status: ['order status', 'item status']
+  },
+  {
+    channel: 'Flipkart',
+    signature: ['order item id', 'order state', 'fsn'],
+    date: 'ordered on',
+    product: 'product',
+    quantity: 'quantity',
+    amount: ['invoice amount'],
+    location: ['city', 'state'],
+    orderId: 'order id',
+    sku: 'sku',
+    status: ['order state']
+  },
+  {
+    channel: 'Meesho',
+    signature: ['sub order no', 'reason for credit entry'],
+    date: 'order date',
+    product: 'product name',
+    quantity: 'quantity',
+    amount: ['supplier discounted price incl gst and commision', 'supplier discounted price incl gst and commission', 'supplier listed price incl gst commission'],
+    unitPrice: true,
+    location: ['customer state'],
+    orderId: 'sub order no',
+    sku: 'sku',
+    status: ['reason for credit entry']
+  },
+  {
+    channel: 'Shopify',
+    signature: ['financial status', 'lineitem name', 'lineitem quantity', 'lineitem price'],
+    date: 'created at',
+    product: 'lineitem name',
+    quantity: 'lineitem quantity',
+    amount: ['lineitem price'],
+    unitPrice: true,
+    location: ['shipping city', 'billing city', 'shipping province'],
+    orderId: 'name',
+    sku: 'lineitem sku',
+    status: ['financial status'],
+    cancelledAt: 'cancelled at',
+    fillDown: { key: 'name', columns: ['created at', 'financial status', 'cancelled at', 'shipping city', 'billing city', 'shipping province'] }
+  }
+];
+
+export function detectMarketplace(headers: string[]): MarketplaceChannel | null {
+  const normalized = new Set(headers.map(normalizeHeader));
+  const preset = PRESETS.find(candidate => candidate.signature.every(header => normalized.has(header)));
+  return preset ? preset.channel : null;
+}
+
+// Statuses vary per marketplace (Shipped - Returned to Seller, RTO_COMPLETE, refunded), so match on words
+export function classifyOrderStatus(status: string): ExcludedOrderStatus | null {
+  if (/\brto\b|rto_|returned to (seller|origin)|rejected by buyer|undeliver/i.test(status)) return 'rto';
+  if (/return|^refunded$/i.test(status)) return 'returned';
+  if (/cancel|^voided$/i.test(status)) return 'cancelled';
+  return null;
+}
+
+/**
+ * Convert a recognised marketplace order report to sales rows with a Channel
+ * column. Cancelled, returned and RTO orders are left out and counted; `kept`
+ * holds the source index of every row that stayed.
+ */
+export function convertMarketplaceReport(table: RawTable, channel: MarketplaceChannel): { table: RawTable; kept: number[]; match: MarketplaceMatch } {
+  const preset = PRESETS.find(candidate => candidate.channel === channel)!;
+  const headerFor = new Map(table.headers.map(header => [normalizeHeader(header), header]));
+  const read = (row: Record<string, unknown>, column: string) => {
+    const header = headerFor.get(column);
+    const value = header ? row[header] : undefined;
+    return typeof value === 'string' ? value.trim() : value ?? '';
+  };
+  const readFirst = (row: Record<string, unknown>, columns: string[]) =>
+    columns.map(column => read(row, column)).find(value => value !== '') ?? '';
+
+  const excluded: Record<ExcludedOrderStatus, number> = { cancelled: 0, returned: 0, rto: 0 };
+  const rows: Record<string, unknown>[] = [];
+  const kept: number[] = [];
+  const orderFields = new Map<unknown, Record<string, unknown>>();
+
+  table.rows.forEach((source, index) => {
+    let row = source;
+    if (preset.fillDown) {
+      const key = read(row, preset.fillDown.key);
+      const first = orderFields.get(key);
+      if (first) {
+        row = { ...row };
+        preset.fillDown.columns.forEach(column => {
+          const header = headerFor.get(column);
+          if (header && (row[header] === '' || row[header] === undefined)) row[header] = first[header];
+        });
+      } else {
+        orderFields.set(key, row);
+      }
+    }
+
+    const statuses = preset.status.map(column => String(read(row, column))).filter(Boolean);
+    const status = Array.from(new Set(statuses)).join(' / ');
+    const outcome = preset.cancelledAt && read(row, preset.cancelledAt) ? 'cancelled' : classifyOrderStatus(status);
+    if (outcome) {
+      excluded[outcome]++;
+      return;
+    }
+
+    const quantity = read(row, preset.quantity);
+    const amount = readFirst(row, preset.amount);
+    const units = parseIndianNumber(quantity).value;
+    const price = parseIndianNumber(amount).value;
+
+    rows.push({
+      Date: read(row, preset.date),
+      Product: read(row, preset.product),
+      Category: '',
+      Quantity: quantity,
+      Amount: preset.unitPrice && units !== null && price !== null ? Math.round(units * price * 100) / 100 : amount,
+      Location: readFirst(row, preset.location),
+      Channel: preset.channel,
+      Order_ID: read(row, preset.orderId),
+      SKU: read(row, preset.sku),
+      Order_Status: status
+    });
+    kept.push(index);
+  });
+
+  return { table: { headers: MARKETPLACE_SALES_HEADERS, rows }, kept, match: { channel, excluded } };
+}
@@ -0,0 +1,118 @@
+export interface ParsedNumber {
+  value: number | null;
+  // Set when the text looks numeric but could mean more than one number
+  ambiguous: boolean;
+  reason?: string;
+}
+
+// Fields that accountants export with currency symbols, digit grouping and lakh/crore words
+export const LOCALE_NUMERIC_FIELDS = ['Amount', 'Price', 'Cost_Price', 'Quantity', 'Stock'];
+
+const CURRENCY_PREFIX = /^(₹|₨|rs\.?|inr|rupees|रु\.?|रू\.?)\s*/i;
+const CURRENCY_SUFFIX = /\s*(₹|rs\.?|inr|rupees|only|\/-)$/i;
+const UNIT_SUFFIX = /\s*(pcs?|nos?\.?|units?|qty)$/i;
+
+const SCALE_WORDS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  lakh: 1e5,
+  lakhs: 1e5,
+  lac: 1e5,
+  lacs: 1e5,
+  'लाख': 1e5,
+  cr: 1e7,
+  crore: 1e7,
+  crores: 1e7,
+  'करोड़': 1e7
+};
+const SCALE_SUFFIX = new RegExp(`^(.*?)\\s*(${Object.keys(SCALE_WORDS).join('|')})\\.?$`, 'i');
+
+// 1,23,45,678 and 12,345 (Indian lakh grouping) or 12,345,678 (international grouping)
+const INDIAN_GROUPING = /^\d{1,2}(,\d{2})*,\d{3}$/;
+const INTERNATIONAL_GROUPING = /^\d{1,3}(,\d{3})+$/;
+const RANGE = /^\d[\d,.]*\s*(-|to|–)\s*\d/i;
+
+function stripAffixes(text: string): string {
+  let previous: string;
+  let current = text;
+  do {
+    previous = current;
+    current = current.replace(CURRENCY_PREFIX, '').replace(CURRENCY_SUFFIX, '').replace(UNIT_SUFFIX, '').trim();
+  } while (current !== previous);
+  return current;
+}
+
+function ambiguous(reason: string): ParsedNumber {
+  return { value: null, ambiguous: true, reason };
+}
+
+function invalid(): ParsedNumber {
+  return { value: null, ambiguous: false, reason: 'not a number' };
+}
+
+export function parseIndianNumber(input: unknown): ParsedNumber {
+  if (typeof input === 'number') {
+    return isFinite(input) ? { value: input, ambiguous: false } : invalid();
+  }
+  if (typeof input !== 'string') return invalid();
+
+  let text = input.replace(/\u00a0/g, ' ').trim();
+  if (text === '') return { value: null, ambiguous: false };
+
+  let sign = 1;
+
+  // Accounting exports show negatives as (450)
+  const accounting = text.match(/^\((.*)\)$/);
+  if (accounting) {
+    sign = -1;
+    text = accounting[1].trim();
+  }
+
+  // The sign can sit on either side of the currency symbol: -₹450 or ₹ -450
+  if (text.startsWith('-')) {
+    sign = -sign;
+    text = text.slice(1).trim();
+  }
+  text = stripAffixes(text);
+  if (text.startsWith('-')) {
+    sign = -sign;
+    text = text.slice(1).trim();
+  } else if (text.startsWith('+')) {
+    text = text.slice(1).trim();
+  }
+
+  if (RANGE.test(text)) {
+    return ambiguous('looks like a range');
+  }
+
+  let scale = 1;
+  const scaleMatch = text.match(SCALE_SUFFIX);
+  if (scaleMatch && scaleMatch[1] !== '') {
+    scale = SCALE_WORDS[scaleMatch[2].toLowerCase()] ?? SCALE_WORDS[scaleMatch[2]];
+    text = stripAffixes(scaleMatch[1]);
+  }
+
+  if (!/^[\d.,]+$/.test(text) || !/\d/.test(text)) {
+    return invalid();
+  }
+
+  const dotCount = (text.match(/\./g) || []).length;
+  if (dotCount > 1) {
+    return ambiguous('has more than one decimal point');
+  }
+
+  const [integerPart, fractionPart = ''] = text.split('.');
+  if (fractionPart.includes(',')) {
+    // 1.234,50 is a European-style decimal comma
+    return ambiguous('uses a comma after the decimal point');
+  }
+  if (integerPart.includes(',') && !INDIAN_GROUPING.test(integerPart) && !INTERNATIONAL_GROUPING.test(integerPart)) {
+    // 12,34 could be a decimal comma or a typo for 1,234
+    return ambiguous('has irregular digit grouping');
+  }
+
+  const value = parseFloat(`${integerPart.replace(/,/g, '') || '0'}.${fractionPart || '0'}`);
+  // Round away float noise from scaling (1.15 lakh should be 115000, not 114999.99999999999)
+  const scaled = scale === 1 ? value : Math.round(value * scale * 100) / 100;
+  return { value: sign * scaled, ambiguous: false };
+}
@@ -0,0 +1,180 @@
+import { type DatasetType, type RawTable } from './data-processing';
+import { type ColumnMapping } from './column-mapping';
+import { type CsvFormat, type CsvSniff } from './csv-sniffing';
+import { isZipFile, type FileClassification } from './dataset-classification';
+import { type DateOrder, type DateOrderDetection } from './date-parsing';
+import { type WorkbookSheet } from './excel-parsing';
+import { type MarketplaceMatch } from './marketplace-presets';
+import { type RejectedRow, type ValidationReport } from './schema-validation';
+
+// 'first' stops reading at the cap; 'sample' keeps a uniform random sample of the whole file
+export type RowLimitMode = 'all' | 'first' | 'sample';
+
+export interface ParseOptions {
+  mode: RowLimitMode;
+  rowLimit: number;
+}
+
+export interface ParseProgress {
+  loaded: number;
+  total: number;
+  rows: number;
+}
+
+// Headers plus a handful of rows for mapping and previews; the full table stays in the worker
+export interface TablePreview extends RawTable {
+  rowCount: number;
+  // Rows in the file or sheet, which exceeds rowCount when a cap or sample applied
+  sourceRowCount: number;
+  truncated: boolean;
+  // Set when the table is a known marketplace order report, already converted to sales columns
+  marketplace?: MarketplaceMatch;
+}
+
+export interface OpenResult {
+  sheets?: WorkbookSheet[];
+  preview?: TablePreview;
+}
+
+// Row objects repeat every key, so valid rows cross the worker boundary as arrays
+export interface CompactReport {
+  columns: string[];
+  validRows: unknown[][];
+  rejectedRows: RejectedRow[];
+  missingColumns: string[];
+  totalRows: number;
+}
+
+export type WorkerRequest =
+  | { id: number; kind: 'unzip'; file: File }
+  | { id: number; kind: 'classify'; file: File }
+  | { id: number; kind: 'sniff'; file: File; datasetType: DatasetType; format?: CsvFormat }
+  | { id: number; kind: 'open'; file: File; datasetType: DatasetType; options: ParseOptions; csvFormat?: CsvFormat }
+  | { id: number; kind: 'select-sheet'; sheet: string }
+  | { id: number; kind: 'detect-date-order'; header: string }
+  | { id: number; kind: 'finalize'; datasetType: DatasetType; mapping: ColumnMapping; dateOrders: Record<string, DateOrder>; source?: string };
+
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+
+export type WorkerResponse =
+  | { kind: 'progress'; progress: ParseProgress }
+  | { id: number; kind: 'result'; result: unknown }
+  | { id: number; kind: 'error'; message: string };
+
+export interface ParseSession {
+  // Delimited text only: guess the encoding, delimiter and header row, or preview the file read with format
+  sniff(format?: CsvFormat): Promise<CsvSniff>;
+  open(csvFormat?: CsvFormat): Promise<OpenResult>;
+  selectSheet(sheet: string): Promise<TablePreview>;
+  detectDateOrder(header: string): Promise<DateOrderDetection>;
+  // Rows without a Source of their own are tagged with source
+  finalize<T>(datasetType: DatasetType, mapping: ColumnMapping, dateOrders: Record<string, DateOrder>, source?: string): Promise<ValidationReport<T>>;
+  cancel(): void;
+}
+
+export const DEFAULT_PARSE_OPTIONS: ParseOptions = { mode: 'all', rowLimit: 100000 };
+
+export function isParseCancelled(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+export function expandCompactReport<T>(compact: CompactReport): ValidationReport<T> {
+  const validRows = compact.validRows.map(values => {
+    const record: Record<string, unknown> = {};
+    compact.columns.forEach((column, index) => {
+      if (values[index] !== undefined) record[column] = values[index];
+    });
+    return record as T;
+  });
+
+  return {
+    totalRows: compact.totalRows,
+    validRows,
+    rejectedRows: compact.rejectedRows,
+    missingColumns: compact.missingColumns
+  };
+}
+
+function connectWorker(onProgress: (progress: ParseProgress) => void) {
+  const worker = new Worker(new URL('../workers/parse.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+  let nextId = 0;
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    if (message.kind === 'progress') {
+      onProgress(message.progress);
+      return;
+    }
+
+    const request = pending.get(message.id);
+    if (!request) return;
+    pending.delete(message.id);
+
+    if (message.kind === 'result') {
+      request.resolve(message.result);
+    } else {
+      request.reject(new Error(message.message));
+    }
+  };
+
+  worker.onerror = (event) => {
+    pending.forEach(request => request.reject(new Error(event.message || 'Parser worker failed')));
+    pending.clear();
+  };
+
+  const send = <R>(request: WithoutId<WorkerRequest>): Promise<R> => {
+    const id = nextId++;
+    return new Promise<R>((resolve, reject) => {
+      pending.set(id, { resolve: resolve as (value: unknown) => void, reject });
+      worker.postMessage({ ...request, id });
+    });
+  };
+
+  const cancel = () => {
+    worker.terminate();
+    pending.forEach(request => request.reject(new DOMException('Parsing cancelled', 'AbortError')));
+    pending.clear();
+  };
+
+  return { worker, send, cancel };
+}
+
+/**
+ * Parse and validate a file in a Web Worker so large exports don't freeze the tab.
+ * The worker keeps the parsed table between calls; each method is one round trip.
+ */
+export function createParseSession(file: File, datasetType: DatasetType, options: ParseOptions, onProgress: (progress: ParseProgress) => void): ParseSession {
+  const { worker, send, cancel } = connectWorker(onProgress);
+
+  return {
+    sniff: (format) => send<CsvSniff>({ kind: 'sniff', file, datasetType, format }),
+    open: (csvFormat) => send<OpenResult>({ kind: 'open', file, datasetType, options, csvFormat }),
+    selectSheet: (sheet) => send<TablePreview>({ kind: 'select-sheet', sheet }),
+    detectDateOrder: (header) => send<DateOrderDetection>({ kind: 'detect-date-order', header }),
+    finalize: async <T,>(datasetType: DatasetType, mapping: ColumnMapping, dateOrders: Record<string, DateOrder>, source?: string) => {
+      const compact = await send<CompactReport>({ kind: 'finalize', datasetType, mapping, dateOrders, source });
+      // The worker's job is done once the validated rows are back
+      worker.terminate();
+      return expandCompactReport<T>(compact);
+    },
+    cancel
+  };
+}
+
+// Unpack archives and work out which dataset each dropped file holds, off the main thread
+export async function classifyFiles(files: File[]): Promise<FileClassification[]> {
+  const { send, cancel } = connectWorker(() => undefined);
+  try {
+    const classifications: FileClassification[] = [];
+    for (const file of files) {
+      const entries = isZipFile(file) ? await send<File[]>({ kind: 'unzip', file }) : [file];
+      for (const entry of entries) {
+        classifications.push(await send<FileClassification>({ kind: 'classify', file: entry }));
+      }
+    }
+    return classifications;
+  } finally {
+    cancel();
+  }
+}
@@ -0,0 +1,293 @@
+import { type DatasetType } from './data-processing';
+import { levenshtein } from './column-mapping';
+
+export interface ProductEntry {
+  id: string;
+  name: string;
+  // Every spelling seen across the datasets
+  aliases: string[];
+  datasets: DatasetType[];
+}
+
+export interface ProductMaster {
+  products: ProductEntry[];
+  // Raw product name to product ID
+  ids: Record<string, string>;
+}
+
+export interface ProposedMerge {
+  key: string;
+  names: string[];
+  canonical: string;
+  score: number;
+  // Every matched pair has the same letters and differs only in spacing, e.g. "T Shirt" and "Tshirt"
+  sameLetters: boolean;
+}
+
+// Merges the user confirmed or turned down, by normalized name, so they are only asked once
+export interface ProductDecisions {
+  merged: string[][];
+  rejected: string[];
+}
+
+type ProductNames = Partial<Record<DatasetType, string[]>>;
+
+interface NameGroup {
+  key: string;
+  tokens: string[];
+  spellings: Map<string, number>;
+  datasets: Set<DatasetType>;
+}
+
+const DECISIONS_STORAGE_KEY = 'vyaaparik:product-decisions';
+const MIN_PRODUCT_SCORE = 0.85;
+// A word shared by more names than this, like "cotton" or "pack", says too little to compare them all
+const MAX_BUCKET_SIZE = 100;
+
+// Garment sizes mark a variant listing of the same product, e.g. BLUE-KURTA-M
+const SIZE_TOKENS = new Set(['xs', 's', 'm', 'l', 'xl', 'xxl', 'xxxl', '2xl', '3xl', 'free', 'size', 'freesize']);
+
+// "Blue Kurta", "blue kurta " and "BLUE-KURTA" all normalize to "blue kurta"
+export function normalizeProductName(name: string): string {
+  return String(name ?? '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function toProductId(key: string): string {
+  return key.replace(/ /g, '-');
+}
+
+export function productSimilarity(a: string[], b: string[]): number {
+  const compactA = a.join('');
+  const compactB = b.join('');
+  if (compactA === compactB) return 1;
+
+  // Rice 1kg and Rice 5kg are different products however close the spelling
+  const numbers = (tokens: string[]) => tokens.join(' ').match(/\d+(\.\d+)?/g)?.join() || '';
+  if (numbers(a) !== numbers(b)) return 0;
+
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  const extra = longer.filter(token => !shorter.includes(token));
+  if (shorter.every(token => longer.includes(token)) && extra.every(token => SIZE_TOKENS.has(token))) {
+    return 0.95;
+  }
+
+  return 1 - levenshtein(compactA, compactB) / Math.max(compactA.length, compactB.length);
+}
+
+function collectNames(datasets: ProductNames): Map<string, NameGroup> {
+  const groups = new Map<string, NameGroup>();
+  (Object.entries(datasets) as Array<[DatasetType, string[]]>).forEach(([type, names]) => {
+    names.forEach(name => {
+      const key = normalizeProductName(name);
+      if (!key) return;
+
+      const group = groups.get(key) || { key, tokens: key.split(' '), spellings: new Map(), datasets: new Set() };
+      const spelling = String(name).trim();
+      group.spellings.set(spelling, (group.spellings.get(spelling) || 0) + 1);
+      group.datasets.add(type);
+      groups.set(key, group);
+    });
+  });
+  return groups;
+}
+
+// Mixed case reads best ("Blue Kurta"), then lowercase, then shouting ("BLUE KURTA")
+function caseQuality(spelling: string): number {
+  if (spelling === spelling.toUpperCase()) return 0;
+  return spelling === spelling.toLowerCase() ? 1 : 2;
+}
+
+// Shortest name wins so "Blue Kurta" names the group rather than a sized variant; then the best-cased, most used spelling
+function pickCanonical(groups: NameGroup[]): string {
+  const spellings = groups.flatMap(group =>
+    Array.from(group.spellings.entries()).map(([spelling, count]) => ({ spelling, count, tokens: group.tokens.length }))
+  );
+  spellings.sort((a, b) =>
+    a.tokens - b.tokens ||
+    caseQuality(b.spelling) - caseQuality(a.spelling) ||
+    b.count - a.count
+  );
+  return spellings[0].spelling;
+}
+
+function createUnionFind(keys: string[]) {
+  const parent = new Map(keys.map(key => [key, key]));
+  const find = (key: string): string => {
+    const root = parent.get(key)!;
+    if (root === key) return key;
+    const top = find(root);
+    parent.set(key, top);
+    return top;
+  };
+  const union = (a: string, b: string) => {
+    if (parent.has(a) && parent.has(b)) parent.set(find(a), find(b));
+  };
+  const clusters = () => {
+    const result = new Map<string, string[]>();
+    keys.forEach(key => {
+      const root = find(key);
+      result.set(root, [...(result.get(root) || []), key]);
+    });
+    return Array.from(result.values());
+  };
+  return { find, union, clusters };
+}
+
+function applyDecisions(keys: string[], decisions: ProductDecisions) {
+  const unionFind = createUnionFind(keys);
+  decisions.merged.forEach(group => group.forEach(key => unionFind.union(group[0], key)));
+  return unionFind;
+}
+
+/**
+ * Propose merges for names that are probably the same product but are not
+ * spelled alike after normalizing. Candidates are only compared when they share
+ * a word, a pair of neighbouring words or their first letters, and keys shared
+ * by too many names are skipped, which keeps large catalogues fast.
+ */
+export function findProductMerges(datasets: ProductNames, decisions: ProductDecisions): ProposedMerge[] {
+  const groups = collectNames(datasets);
+  const keys = Array.from(groups.keys());
+  const decided = applyDecisions(keys, decisions);
+
+  const index = new Map<string, string[]>();
+  keys.forEach(key => {
+    const { tokens } = groups.get(key)!;
+    const buckets = [
+      ...tokens.filter(token => token.length > 1),
+      // Names made only of common words still meet on the rarer pairs, e.g. "cotton shirt"
+      ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`),
+      `^${tokens.join('').slice(0, 3)}`
+    ];
+    new Set(buckets).forEach(bucket => {
+      const members = index.get(bucket) || [];
+      members.push(key);
+      index.set(bucket, members);
+    });
+  });
+
+  const proposed = createUnionFind(keys);
+  const scores = new Map<string, number>();
+  const compared = new Set<string>();
+  index.forEach(bucket => {
+    if (bucket.length > MAX_BUCKET_SIZE) return;
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const [a, b] = [bucket[i], bucket[j]];
+        const pair = a < b ? `${a}|${b}` : `${b}|${a}`;
+        if (compared.has(pair) || decided.find(a) === decided.find(b)) continue;
+        compared.add(pair);
+
+        const score = productSimilarity(groups.get(a)!.tokens, groups.get(b)!.tokens);
+        if (score >= MIN_PRODUCT_SCORE) {
+          proposed.union(decided.find(a), decided.find(b));
+          scores.set(pair, score);
+        }
+      }
+    }
+  });
+
+  // Proposals are built from already-confirmed groups so a new spelling joins an existing product
+  const clusters = new Map<string, string[]>();
+  keys.forEach(key => {
+    const top = proposed.find(decided.find(key));
+    const members = clusters.get(top) || [];
+    members.push(key);
+    clusters.set(top, members);
+  });
+
+  // Best and worst pair score per cluster, in one pass rather than scanning every pair for every cluster
+  const clusterScores = new Map<string, { best: number; worst: number }>();
+  scores.forEach((score, pair) => {
+    const top = proposed.find(decided.find(pair.split('|')[0]));
+    const entry = clusterScores.get(top) || { best: 0, worst: 1 };
+    clusterScores.set(top, { best: Math.max(entry.best, score), worst: Math.min(entry.worst, score) });
+  });
+
+  const rejected = new Set(decisions.rejected);
+  return Array.from(clusters.entries())
+    .filter(([, members]) => new Set(members.map(key => decided.find(key))).size > 1)
+    .map(([top, members]) => {
+      const sorted = [...members].sort();
+      const memberGroups = sorted.map(key => groups.get(key)!);
+      return {
+        key: sorted.join('|'),
+        names: memberGroups.map(group => pickCanonical([group])),
+        canonical: pickCanonical(memberGroups),
+        score: clusterScores.get(top).best,
+        sameLetters: clusterScores.get(top).worst === 1
+      };
+    })
+    .filter(proposal => !rejected.has(proposal.key))
+    .sort((a, b) => b.score - a.score);
+}
+
+export function recordMergeDecisions(decisions: ProductDecisions, proposals: ProposedMerge[], accepted: Set<string>): ProductDecisions {
+  return {
+    merged: [...decisions.merged, ...proposals.filter(p => accepted.has(p.key)).map(p => p.key.split('|'))],
+    rejected: [...decisions.rejected, ...proposals.filter(p => !accepted.has(p.key)).map(p => p.key)]
+  };
+}
+
+export function buildProductMaster(datasets: ProductNames, decisions: ProductDecisions): ProductMaster {
+  const groups = collectNames(datasets);
+  const clusters = applyDecisions(Array.from(groups.keys()), decisions).clusters();
+
+  const master: ProductMaster = { products: [], ids: {} };
+  clusters.forEach(members => {
+    const memberGroups = members.map(key => groups.get(key)!);
+    const name = pickCanonical(memberGroups);
+    const id = toProductId(normalizeProductName(name));
+    const aliases = memberGroups.flatMap(group => Array.from(group.spellings.keys()));
+    const datasetTypes = new Set(memberGroups.flatMap(group => Array.from(group.datasets)));
+
+    master.products.push({ id, name, aliases, datasets: Array.from(datasetTypes) });
+    aliases.forEach(alias => {
+      master.ids[alias] = id;
+    });
+  });
+  return master;
+}
+
+/**
+ * Give each row its Product_ID and rename it to the canonical product name,
+ * keeping the original spelling in Original_Product when it differs.
+ */
+export function assignProductIds<T extends { Product: string }>(rows: T[], master: ProductMaster): T[] {
+  const names = new Map(master.products.map(product => [product.id, product.name]));
+  return rows.map(row => {
+    const spelling = String(row.Product ?? '').trim();
+    const id = master.ids[spelling];
+    if (!id) return row;
+
+    const name = names.get(id)!;
+    return {
+      ...row,
+      Product_ID: id,
+      Product: name,
+      ...(name !== row.Product ? { Original_Product: row.Product } : {})
+    };
+  });
+}
+
+export function loadProductDecisions(): ProductDecisions {
+  try {
+    const saved = JSON.parse(localStorage.getItem(DECISIONS_STORAGE_KEY) || 'null');
+    if (saved && Array.isArray(saved.merged) && Array.isArray(saved.rejected)) return saved;
+  } catch (error) {
+    console.warn('Ignoring unreadable product decisions:', error);
+  }
+  return { merged: [], rejected: [] };
+}
+
+export function saveProductDecisions(decisions: ProductDecisions): void {
+  try {
+    localStorage.setItem(DECISIONS_STORAGE_KEY, JSON.stringify(decisions));
+  } catch (error) {
+    console.warn('Could not save product decisions:', error);
+  }
+}
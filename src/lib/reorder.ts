@@ -0,0 +1,231 @@
+import { getProductKey, type InventoryData, type SalesData } from './data-processing';
+import { getDateKey } from './date-parsing';
+import { type DemandForecast } from './forecasting';
+import { isReturnSale } from './returns';
+
+export interface ReorderSettings {
+  // Days from placing an order to the stock arriving, when the supplier has no lead time of its own
+  defaultLeadTimeDays: number;
+  leadTimeBySupplier: Record<string, number>;
+  // Cost of placing one order (calls, transport, paperwork), for the economic order quantity
+  orderCost: number;
+}
+
+export type ReorderStatus = 'out_of_stock' | 'reorder_now' | 'reorder_soon' | 'ok' | 'not_selling';
+
+export interface ReorderItem {
+  product: string;
+  supplier?: string;
+  stock: number;
+  // Units sold per day, from the forecast for best sellers and recent sales for the rest;
+  // a product out of stock for the whole window is measured before it ran out
+  dailyDemand: number;
+  demandSource: 'forecast' | 'recent_sales' | 'earlier_sales';
+  leadTimeDays: number;
+  safetyStock: number;
+  // Stock level at which to order, to last through the lead time
+  reorderPoint: number;
+  daysOfCover: number | null;
+  stockoutDate: string | null;
+  // Last day to order before stock falls below the reorder point
+  reorderBy: string | null;
+  // Economic order quantity; null without a cost or selling price to value holding stock
+  economicOrderQuantity: number | null;
+  suggestedOrder: number;
+  status: ReorderStatus;
+}
+
+export interface ReorderSummary {
+  // Last day with sales; stockout and reorder-by dates count from here, as the sales rate does
+  asOf: string;
+  settings: ReorderSettings;
+  // Products to act on, most urgent first
+  items: ReorderItem[];
+  outOfStock: number;
+  reorderNow: number;
+  reorderSoon: number;
+  healthy: number;
+  // Stocked products with no sales in the recent window
+  notSelling: number;
+}
+
+export const DEFAULT_REORDER_SETTINGS: ReorderSettings = {
+  defaultLeadTimeDays: 7,
+  leadTimeBySupplier: {},
+  orderCost: 500
+};
+
+const SETTINGS_STORAGE_KEY = 'vyaaparik:reorder-settings';
+const VELOCITY_DAYS = 56;
+// Covers demand on 95% of lead times
+const SERVICE_Z = 1.65;
+// Yearly cost of holding one unit (capital, space, damage) as a share of its value
+const HOLDING_RATE = 0.2;
+// Reorder within this many days counts as soon
+const SOON_DAYS = 7;
+const TOP_ITEMS = 25;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STATUS_ORDER: ReorderStatus[] = ['out_of_stock', 'reorder_now', 'reorder_soon', 'ok', 'not_selling'];
+
+const addDays = (day: string, days: number) => new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS) + 1;
+
+export function getLeadTime(settings: ReorderSettings, supplier?: string): number {
+  const days = supplier ? settings.leadTimeBySupplier[supplier.trim()] : undefined;
+  return typeof days === 'number' && days >= 0 ? days : settings.defaultLeadTimeDays;
+}
+
+// Suppliers named in the inventory, for setting their lead times
+export function getSuppliers(inventoryData: InventoryData[]): string[] {
+  return Array.from(new Set(inventoryData.map(item => String(item.Supplier ?? '').trim()).filter(Boolean))).sort();
+}
+
+interface StockEntry {
+  product: string;
+  supplier?: string;
+  stock: number;
+  // Cost price where known, the selling price otherwise
+  unitValue: number | null;
+}
+
+// Godown and branch rows of the same product are one stock position
+function getStockPositions(inventoryData: InventoryData[]): Map<string, StockEntry> {
+  const positions = new Map<string, StockEntry>();
+  inventoryData.forEach(item => {
+    const key = getProductKey(item);
+    const entry = positions.get(key) || { product: item.Product, stock: 0, unitValue: null };
+    entry.stock += item.Stock || 0;
+    entry.supplier = entry.supplier || String(item.Supplier ?? '').trim() || undefined;
+    const value = typeof item.Cost_Price === 'number' ? item.Cost_Price : item.Price;
+    entry.unitValue = entry.unitValue ?? (typeof value === 'number' && value > 0 ? value : null);
+    positions.set(key, entry);
+  });
+  return positions;
+}
+
+// Mean and spread of units sold per day over the recent window, counting days without sales as zero
+function getVelocity(rows: SalesData[], from: string, to: string): { mean: number; deviation: number } {
+  const days = daysBetween(from, to);
+  const units = new Map<string, number>();
+  rows.forEach(sale => {
+    const day = getDateKey(sale.Date);
+    if (day < from || day > to) return;
+    units.set(day, (units.get(day) || 0) + (sale.Quantity || 0));
+  });
+  const total = Array.from(units.values()).reduce((sum, value) => sum + value, 0);
+  const mean = total / days;
+  const squares = Array.from(units.values()).reduce((sum, value) => sum + (value - mean) ** 2, 0) + (days - units.size) * mean ** 2;
+  return { mean, deviation: Math.sqrt(squares / days) };
+}
+
+/**
+ * Reorder points from how fast each stocked product sells. Safety stock covers
+ * demand swings over the supplier's lead time, the reorder point adds the
+ * expected lead-time demand, and the economic order quantity balances order
+ * cost against the cost of holding stock.
+ */
+export function summarizeReorders(
+  salesData: SalesData[],
+  inventoryData: InventoryData[],
+  settings: ReorderSettings = DEFAULT_REORDER_SETTINGS,
+  forecast?: DemandForecast
+): ReorderSummary | undefined {
+  const orders = salesData.filter(sale => !isReturnSale(sale) && typeof sale.Date === 'string' && /^\d{4}-\d{2}-\d{2}/.test(sale.Date));
+  if (orders.length === 0 || inventoryData.length === 0) return undefined;
+
+  const lastDate = orders.map(sale => getDateKey(sale.Date)).sort().pop();
+  const windowStart = addDays(lastDate, -(VELOCITY_DAYS - 1));
+  const byProduct = new Map<string, SalesData[]>();
+  orders.forEach(sale => {
+    const key = getProductKey(sale);
+    const rows = byProduct.get(key) || [];
+    rows.push(sale);
+    byProduct.set(key, rows);
+  });
+  const forecasts = new Map((forecast?.byProduct || []).map(entry => [entry.key, entry]));
+
+  const items: ReorderItem[] = [];
+  getStockPositions(inventoryData).forEach((entry, key) => {
+    const rows = byProduct.get(key) || [];
+    const saleDays = rows.map(sale => getDateKey(sale.Date)).sort();
+    const [firstSale, lastSale] = [saleDays[0], saleDays[saleDays.length - 1]];
+    const stock = Math.max(entry.stock, 0);
+    // A product launched within the window is measured from its first sale, not diluted by days it was not stocked
+    const recent = getVelocity(rows, firstSale && firstSale > windowStart ? firstSale : windowStart, lastDate);
+    // Sold out before the window began: no sales only because there was nothing to sell
+    const soldOutEarlier = stock === 0 && recent.mean === 0 && rows.length > 0;
+    const earlierStart = soldOutEarlier ? [firstSale, addDays(lastSale, -(VELOCITY_DAYS - 1))].sort().pop() : null;
+    const velocity = soldOutEarlier ? getVelocity(rows, earlierStart, lastSale) : recent;
+    const predicted = forecasts.get(key);
+    const dailyDemand = predicted && !soldOutEarlier ? predicted.quantity.total / (forecast.horizon * 7) : velocity.mean;
+
+    const leadTimeDays = getLeadTime(settings, entry.supplier);
+    const safetyStock = Math.ceil(SERVICE_Z * velocity.deviation * Math.sqrt(leadTimeDays));
+    const reorderPoint = Math.ceil(dailyDemand * leadTimeDays) + safetyStock;
+    const daysOfCover = dailyDemand > 0 ? stock / dailyDemand : null;
+    const holdingCost = entry.unitValue !== null ? entry.unitValue * HOLDING_RATE : null;
+    const economicOrderQuantity = holdingCost && dailyDemand > 0
+      ? Math.ceil(Math.sqrt((2 * dailyDemand * 365 * settings.orderCost) / holdingCost))
+      : null;
+
+    const daysToReorder = dailyDemand > 0 ? (stock - reorderPoint) / dailyDemand : null;
+    let status: ReorderStatus = 'ok';
+    if (stock === 0 && rows.length > 0) status = 'out_of_stock';
+    else if (dailyDemand === 0) status = 'not_selling';
+    else if (stock <= reorderPoint) status = 'reorder_now';
+    else if (daysToReorder <= SOON_DAYS) status = 'reorder_soon';
+
+    const needsOrder = status === 'out_of_stock' || status === 'reorder_now';
+    items.push({
+      product: entry.product,
+      ...(entry.supplier ? { supplier: entry.supplier } : {}),
+      stock: entry.stock,
+      dailyDemand,
+      demandSource: soldOutEarlier ? 'earlier_sales' : predicted ? 'forecast' : 'recent_sales',
+      leadTimeDays,
+      safetyStock,
+      reorderPoint,
+      daysOfCover,
+      stockoutDate: daysOfCover !== null ? addDays(lastDate, Math.floor(daysOfCover)) : null,
+      reorderBy: daysToReorder !== null ? addDays(lastDate, Math.max(0, Math.floor(daysToReorder))) : null,
+      economicOrderQuantity,
+      // Enough to be back above the reorder point once it arrives, and no less than the economic batch
+      suggestedOrder: needsOrder ? Math.max(economicOrderQuantity ?? 0, reorderPoint - stock + Math.ceil(dailyDemand * leadTimeDays)) : 0,
+      status
+    });
+  });
+
+  const count = (status: ReorderStatus) => items.filter(item => item.status === status).length;
+  return {
+    asOf: lastDate,
+    settings,
+    items: items
+      .filter(item => item.status !== 'ok' && item.status !== 'not_selling')
+      .sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) || a.daysOfCover - b.daysOfCover)
+      .slice(0, TOP_ITEMS),
+    outOfStock: count('out_of_stock'),
+    reorderNow: count('reorder_now'),
+    reorderSoon: count('reorder_soon'),
+    healthy: count('ok'),
+    notSelling: count('not_selling')
+  };
+}
+
+export function loadReorderSettings(): ReorderSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || 'null');
+    if (saved && typeof saved.defaultLeadTimeDays === 'number' && typeof saved.orderCost === 'number' && saved.leadTimeBySupplier) return saved;
+  } catch (error) {
+    console.warn('Ignoring unreadable reorder settings:', error);
+  }
+  return DEFAULT_REORDER_SETTINGS;
+}
+
+export function saveReorderSettings(settings: ReorderSettings): void {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Could not save reorder settings:', error);
+  }
+}
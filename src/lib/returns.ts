@@ -0,0 +1,204 @@
+import { getProductKey, type ReturnData, type SalesData } from './data-processing';
+
+export type ReturnReasonCode =
+  | 'size_fit'
+  | 'damaged'
+  | 'defective'
+  | 'wrong_item'
+  | 'not_as_described'
+  | 'quality'
+  | 'changed_mind'
+  | 'late_delivery'
+  | 'undelivered'
+  | 'other'
+  | 'unspecified';
+
+export const RETURN_REASON_LABELS: Record<ReturnReasonCode, string> = {
+  size_fit: 'Size or fit',
+  damaged: 'Damaged in transit',
+  defective: 'Defective',
+  wrong_item: 'Wrong or missing item',
+  not_as_described: 'Not as described',
+  quality: 'Quality',
+  changed_mind: 'Changed mind',
+  late_delivery: 'Late delivery',
+  undelivered: 'Undelivered (RTO)',
+  other: 'Other',
+  unspecified: 'No reason given'
+};
+
+export interface ReturnCounts {
+  // Units sold and returned; the rate is null without sales to compare against
+  sold: number;
+  returned: number;
+  returnRate: number | null;
+  refunds: number;
+}
+
+export interface ReturnsSummary {
+  grossRevenue: number | null;
+  refunds: number;
+  netRevenue: number | null;
+  returnedUnits: number;
+  returnRate: number | null;
+  // True when some refunds were priced from the product's selling price because the file had no amount
+  refundsEstimated: boolean;
+  byProduct: Array<ReturnCounts & { product: string }>;
+  byCategory: Array<ReturnCounts & { category: string }>;
+  topReasons: Array<{ code: ReturnReasonCode; reason: string; units: number; share: number; examples: string[] }>;
+}
+
+// First match wins, so "found cheaper elsewhere" is a change of mind before "cheap" reads as quality.
+// Marketplace codes like CR-DEFECTIVE or APPAREL_TOO_SMALL match once their separators become spaces.
+const REASON_PATTERNS: Array<{ code: ReturnReasonCode; pattern: RegExp }> = [
+  { code: 'changed_mind', pattern: /chang\w* (my )?mind|unwanted|no longer|not (needed|required)|don'?t (need|want)|by mistake|ordered wrong|better price|cheaper/ },
+  { code: 'undelivered', pattern: /\brto\b|undeliver|not deliver|refused|rejected at door|customer not available|door ?lock|incomplete address/ },
+  // Before wrong_item, so "wrong size" counts as a fit problem
+  { code: 'size_fit', pattern: /size|\bfit|too (small|large|big|long|short)|tight|loose|साइज/ },
+  { code: 'wrong_item', pattern: /wrong|switcheroo|different (item|product)|different from what|incorrect (item|product)|missing|गलत/ },
+  { code: 'damaged', pattern: /damage|broken|torn|leak|crush|scratch|dent|टूट|फटा/ },
+  { code: 'defective', pattern: /defect|not working|faulty|stopped working|malfunction|dead on arrival/ },
+  { code: 'quality', pattern: /quality|fabric|material|poor|cheap|खराब/ },
+  { code: 'not_as_described', pattern: /not as (described|shown|pictured|expected)|bad desc|colou?r|looks? different|image|photo|picture/ },
+  { code: 'late_delivery', pattern: /\blate\b|delay|missed estimated/ }
+];
+
+const TOP_ENTRIES = 10;
+
+export function classifyReturnReason(reason: unknown): ReturnReasonCode {
+  const text = String(reason ?? '').toLowerCase().replace(/[_-]+/g, ' ').trim();
+  if (text === '' || /^(no reason|none|n\/?a|na)\b/.test(text)) return 'unspecified';
+  return REASON_PATTERNS.find(({ pattern }) => pattern.test(text))?.code ?? 'other';
+}
+
+// Credit lines in a sales file, e.g. Quantity -2, are returns rather than negative sales
+export function isReturnSale(sale: SalesData): boolean {
+  return sale.Quantity < 0 || sale.Amount < 0;
+}
+
+interface ReturnLine {
+  key: string;
+  product: string;
+  category: string;
+  units: number;
+  refund: number | null;
+  reason: string;
+}
+
+function toRate(sold: number, returned: number): number | null {
+  return sold > 0 ? returned / sold : null;
+}
+
+function rank<T extends ReturnCounts>(groups: Map<string, T>): T[] {
+  return Array.from(groups.values())
+    .filter(group => group.returned > 0)
+    .map(group => ({ ...group, returnRate: toRate(group.sold, group.returned) }))
+    .sort((a, b) => b.returned - a.returned || b.refunds - a.refunds)
+    .slice(0, TOP_ENTRIES);
+}
+
+/**
+ * Gross vs net revenue and where returns come from. Returns are read from the
+ * returns dataset and from negative sales lines; a return without an amount is
+ * refunded at the product's average selling price.
+ */
+export function summarizeReturns(salesData: SalesData[], returnData: ReturnData[]): ReturnsSummary | undefined {
+  const creditSales = salesData.filter(isReturnSale);
+  if (returnData.length === 0 && creditSales.length === 0) return undefined;
+
+  const orders = salesData.filter(sale => !isReturnSale(sale));
+  const products = new Map<string, ReturnCounts & { product: string; revenue: number; category: string }>();
+  orders.forEach(sale => {
+    const key = getProductKey(sale);
+    const entry = products.get(key) || { product: sale.Product, category: sale.Category || '', sold: 0, returned: 0, returnRate: null, refunds: 0, revenue: 0 };
+    entry.sold += sale.Quantity || 0;
+    entry.revenue += sale.Amount || 0;
+    entry.category = entry.category || sale.Category || '';
+    products.set(key, entry);
+  });
+
+  const lines: ReturnLine[] = [
+    ...returnData.map(row => ({
+      key: getProductKey(row),
+      product: row.Product,
+      category: row.Category || '',
+      units: Math.abs(row.Quantity || 0),
+      refund: typeof row.Amount === 'number' && row.Amount !== 0 ? Math.abs(row.Amount) : null,
+      reason: String(row.Reason ?? '').trim()
+    })),
+    ...creditSales.map(sale => ({
+      key: getProductKey(sale),
+      product: sale.Product,
+      category: sale.Category || '',
+      units: Math.abs(sale.Quantity || 0),
+      refund: sale.Amount ? Math.abs(sale.Amount) : null,
+      reason: String(sale.Reason ?? sale.Return_Reason ?? '').trim()
+    }))
+  ];
+
+  let refundsEstimated = false;
+  const categories = new Map<string, ReturnCounts & { category: string }>();
+  const reasons = new Map<ReturnReasonCode, { units: number; examples: Set<string> }>();
+  let refunds = 0;
+  let returnedUnits = 0;
+
+  // Every category sold gets its denominator, even those nothing came back from
+  products.forEach(entry => {
+    const name = entry.category || 'Uncategorized';
+    const category = categories.get(name) || { category: name, sold: 0, returned: 0, returnRate: null, refunds: 0 };
+    category.sold += entry.sold;
+    categories.set(name, category);
+  });
+
+  lines.forEach(line => {
+    const sold = products.get(line.key);
+    let refund = line.refund;
+    if (refund === null) {
+      refund = sold && sold.sold > 0 ? line.units * (sold.revenue / sold.sold) : 0;
+      refundsEstimated = true;
+    }
+    refunds += refund;
+    returnedUnits += line.units;
+
+    const product = sold || { product: line.product, category: line.category, sold: 0, returned: 0, returnRate: null, refunds: 0, revenue: 0 };
+    product.returned += line.units;
+    product.refunds += refund;
+    products.set(line.key, product);
+
+    const name = line.category || product.category || 'Uncategorized';
+    const category = categories.get(name) || { category: name, sold: 0, returned: 0, returnRate: null, refunds: 0 };
+    category.returned += line.units;
+    category.refunds += refund;
+    categories.set(name, category);
+
+    const code = classifyReturnReason(line.reason);
+    const reason = reasons.get(code) || { units: 0, examples: new Set<string>() };
+    reason.units += line.units;
+    if (line.reason && reason.examples.size < 3) reason.examples.add(line.reason);
+    reasons.set(code, reason);
+  });
+
+  const hasSales = orders.length > 0;
+  const grossRevenue = orders.reduce((sum, sale) => sum + (sale.Amount || 0), 0);
+  const soldUnits = orders.reduce((sum, sale) => sum + (sale.Quantity || 0), 0);
+
+  return {
+    grossRevenue: hasSales ? grossRevenue : null,
+    refunds,
+    netRevenue: hasSales ? grossRevenue - refunds : null,
+    returnedUnits,
+    returnRate: hasSales ? toRate(soldUnits, returnedUnits) : null,
+    refundsEstimated,
+    byProduct: rank(products).map(({ product, sold, returned, returnRate, refunds }) => ({ product, sold, returned, returnRate, refunds })),
+    byCategory: rank(categories),
+    topReasons: Array.from(reasons.entries())
+      .map(([code, { units, examples }]) => ({
+        code,
+        reason: RETURN_REASON_LABELS[code],
+        units,
+        share: returnedUnits > 0 ? units / returnedUnits : 0,
+        examples: Array.from(examples)
+      }))
+      .sort((a, b) => b.units - a.units)
+  };
+}
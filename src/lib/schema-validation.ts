@@ -0,0 +1,199 @@
+import Papa from 'papaparse';
+import { type DatasetType } from './data-processing';
+import { parseIndianNumber } from './number-parsing';
+import { normalizeDate } from './date-parsing';
+
+export type FieldKind = 'text' | 'number' | 'date';
+
+export interface FieldRule {
+  field: string;
+  kind: FieldKind;
+  required?: boolean;
+  min?: number;
+  max?: number;
+}
+
+export interface RowIssue {
+  // Spreadsheet row number, counting the header as row 1
+  row: number;
+  column: string;
+  value: unknown;
+  reason: string;
+}
+
+export interface RejectedRow {
+  row: number;
+  record: Record<string, unknown>;
+  issues: RowIssue[];
+}
+
+export interface ValidationReport<T = Record<string, unknown>> {
+  totalRows: number;
+  validRows: T[];
+  rejectedRows: RejectedRow[];
+  missingColumns: string[];
+}
+
+export const DATASET_SCHEMAS: Record<DatasetType, FieldRule[]> = {
+  sales: [
+    { field: 'Date', kind: 'date', required: true },
+    { field: 'Product', kind: 'text', required: true },
+    { field: 'Quantity', kind: 'number', required: true },
+    { field: 'Amount', kind: 'number', required: true },
+    { field: 'Category', kind: 'text' },
+    { field: 'Customer_Age', kind: 'number', min: 0, max: 120 },
+    { field: 'Customer_ID', kind: 'text' },
+    { field: 'Location', kind: 'text' },
+    { field: 'Channel', kind: 'text' }
+  ],
+  inventory: [
+    { field: 'Product', kind: 'text', required: true },
+    { field: 'Stock', kind: 'number', required: true, min: 0 },
+    { field: 'Price', kind: 'number', required: true, min: 0 },
+    { field: 'Cost_Price', kind: 'number', min: 0 },
+    { field: 'Category', kind: 'text' },
+    { field: 'Supplier', kind: 'text' },
+    { field: 'Min_Alert', kind: 'number', min: 0 },
+    { field: 'Unit', kind: 'text' },
+    { field: 'Godown', kind: 'text' }
+  ],
+  reviews: [
+    { field: 'Date', kind: 'date', required: true },
+    { field: 'Rating', kind: 'number', required: true, min: 1, max: 5 },
+    { field: 'Review', kind: 'text', required: true },
+    { field: 'Product', kind: 'text', required: true },
+    { field: 'Platform', kind: 'text' }
+  ],
+  returns: [
+    { field: 'Date', kind: 'date', required: true },
+    { field: 'Product', kind: 'text', required: true },
+    // Some exports write returned units as negatives; both count the same
+    { field: 'Quantity', kind: 'number', required: true },
+    { field: 'Amount', kind: 'number' },
+    { field: 'Reason', kind: 'text' },
+    { field: 'Category', kind: 'text' },
+    { field: 'Order_ID', kind: 'text' },
+    { field: 'Channel', kind: 'text' }
+  ],
+  customers: [
+    { field: 'Customer_ID', kind: 'text', required: true },
+    { field: 'Name', kind: 'text', required: true },
+    { field: 'Phone', kind: 'text' },
+    { field: 'City', kind: 'text' },
+    { field: 'Join_Date', kind: 'date' }
+  ]
+};
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+function checkValue(rule: FieldRule, value: unknown): string | null {
+  if (isEmpty(value)) {
+    return rule.required ? `${rule.field} is required` : null;
+  }
+
+  switch (rule.kind) {
+    case 'number': {
+      if (typeof value !== 'number' || !isFinite(value)) {
+        const parsed = parseIndianNumber(value);
+        return parsed.ambiguous
+          ? `${rule.field} is ambiguous: ${parsed.reason}`
+          : `${rule.field} must be a number`;
+      }
+      if (rule.min !== undefined && rule.max !== undefined && (value < rule.min || value > rule.max)) {
+        return `${rule.field} must be between ${rule.min} and ${rule.max}`;
+      }
+      if (rule.min !== undefined && value < rule.min) {
+        return `${rule.field} must be at least ${rule.min}`;
+      }
+      if (rule.max !== undefined && value > rule.max) {
+        return `${rule.field} must be at most ${rule.max}`;
+      }
+      return null;
+    }
+    case 'date':
+      // Coercion has already normalized every date it could read
+      return normalizeDate(value) !== null ? null : `${rule.field} is not a recognisable date`;
+    default:
+      return null;
+  }
+}
+
+// Problems with one record, for checking rows as they are typed into the grid
+export function checkRecord(record: Record<string, unknown>, type: DatasetType): Array<{ column: string; reason: string }> {
+  return DATASET_SCHEMAS[type].flatMap(rule => {
+    const reason = checkValue(rule, record[rule.field]);
+    return reason ? [{ column: rule.field, reason }] : [];
+  });
+}
+
+// rowNumbers gives each record's spreadsheet row when the data is a sample rather than the whole file
+export function validateRows<T>(data: Record<string, unknown>[], type: DatasetType, rowNumbers?: number[]): ValidationReport<T> {
+  const schema = DATASET_SCHEMAS[type];
+  const columns = new Set(data.flatMap(row => Object.keys(row)));
+  const missingColumns = schema
+    .filter(rule => rule.required && !columns.has(rule.field))
+    .map(rule => rule.field);
+
+  const validRows: T[] = [];
+  const rejectedRows: RejectedRow[] = [];
+
+  // Without the required columns every row would be rejected for the same reason
+  if (missingColumns.length === 0) {
+    data.forEach((record, index) => {
+      const row = rowNumbers ? rowNumbers[index] : index + 2;
+      const issues = checkRecord(record, type).map(({ column, reason }) => ({ row, column, value: record[column], reason }));
+
+      if (issues.length > 0) {
+        rejectedRows.push({ row, record, issues });
+      } else {
+        validRows.push(record as T);
+      }
+    });
+  }
+
+  return { totalRows: data.length, validRows, rejectedRows, missingColumns };
+}
+
+export function summarizeValidation(report: ValidationReport<unknown>, limit = 5): string[] {
+  if (report.totalRows === 0) {
+    return ['No data found in the file'];
+  }
+  if (report.missingColumns.length > 0) {
+    return report.missingColumns.map(field => `Missing required field: ${field}`);
+  }
+
+  const messages = report.rejectedRows
+    .flatMap(rejected => rejected.issues)
+    .slice(0, limit)
+    .map(issue => `Row ${issue.row}: ${issue.reason}${isEmpty(issue.value) ? '' : ` (got "${issue.value}")`}`);
+
+  const remaining = report.rejectedRows.reduce((sum, rejected) => sum + rejected.issues.length, 0) - messages.length;
+  if (remaining > 0) {
+    messages.push(`…and ${remaining} more problems`);
+  }
+  return messages;
+}
+
+export function buildRejectedRowsCsv(report: ValidationReport<unknown>): string {
+  // Lead with the row number and reasons so the file can be fixed and re-uploaded from Excel
+  const rows = report.rejectedRows.map(rejected => ({
+    Source_Row: rejected.row,
+    Errors: rejected.issues.map(issue => issue.reason).join('; '),
+    ...rejected.record
+  }));
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  return Papa.unparse(rows, { columns });
+}
+
+export function downloadRejectedRows(report: ValidationReport<unknown>, fileName: string): void {
+  // Prefix a BOM so Excel opens Hindi text and ₹ correctly
+  const blob = new Blob(['\uFEFF' + buildRejectedRowsCsv(report)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName.replace(/\.[^.]+$/, '')}-rejected-rows.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
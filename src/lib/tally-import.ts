@@ -0,0 +1,381 @@
+import { XMLParser } from 'fast-xml-parser';
+import { type DatasetType, type RawTable } from './data-processing';
+import { parseIndianNumber } from './number-parsing';
+import { normalizeDate } from './date-parsing';
+
+type XmlNode = Record<string, unknown>;
+
+interface TallyQuantity {
+  value: number | null;
+  unit: string;
+}
+
+// Tags Tally repeats; forcing arrays keeps single-entry vouchers the same shape as multi-entry ones
+const REPEATED_TAGS = [
+  'TALLYMESSAGE', 'VOUCHER', 'STOCKITEM',
+  'ALLINVENTORYENTRIES.LIST', 'INVENTORYENTRIES.LIST', 'BATCHALLOCATIONS.LIST',
+  'DSPACCNAME', 'DSPSTKINFO'
+];
+
+const SALES_VOUCHER = /sales|invoice/i;
+const NON_SALES_VOUCHER = /order|return|credit note|debit note|quotation/i;
+// Goods coming back from a customer are booked as credit notes
+const RETURN_VOUCHER = /credit note|sales return|rejections? in/i;
+
+const SALES_HEADERS = ['Date', 'Product', 'Quantity', 'Amount', 'Location', 'Voucher_No', 'Party'];
+const INVENTORY_HEADERS = ['Product', 'Category', 'Stock', 'Price', 'Unit', 'Godown'];
+const RETURN_HEADERS = ['Date', 'Product', 'Quantity', 'Amount', 'Reason', 'Location', 'Voucher_No', 'Party'];
+
+export function isXmlFile(file: File): boolean {
+  return /\.xml$/i.test(file.name);
+}
+
+// Tally writes XML as UTF-16 by default, sometimes without a byte order mark
+export function decodeXmlBuffer(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes);
+  if (bytes.length > 1 && bytes[0] === 0x3c && bytes[1] === 0x00) return new TextDecoder('utf-16le').decode(bytes);
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+export function isTallyXml(xml: string): boolean {
+  return /<ENVELOPE[\s>]/i.test(xml) && /<(TALLYMESSAGE|VOUCHER|STOCKITEM|DSPACCNAME)[\s>]/i.test(xml);
+}
+
+function text(node: unknown): string {
+  if (node === undefined || node === null) return '';
+  if (typeof node === 'string' || typeof node === 'number') return String(node).trim();
+  if (typeof node === 'object' && '#text' in (node as XmlNode)) return text((node as XmlNode)['#text']);
+  return '';
+}
+
+function list(node: unknown): XmlNode[] {
+  if (!node) return [];
+  return (Array.isArray(node) ? node : [node]).filter(item => typeof item === 'object') as XmlNode[];
+}
+
+function findAll(node: unknown, tag: string, found: XmlNode[] = []): XmlNode[] {
+  if (Array.isArray(node)) {
+    node.forEach(child => findAll(child, tag, found));
+  } else if (node && typeof node === 'object') {
+    Object.entries(node as XmlNode).forEach(([key, child]) => {
+      if (key === tag) found.push(...list(child));
+      else findAll(child, tag, found);
+    });
+  }
+  return found;
+}
+
+// Tally quantities carry their unit: "5 Nos", "-2.5 Kgs", "2 Box = 24 Nos"
+export function parseTallyQuantity(value: string): TallyQuantity {
+  const match = value.match(/^\s*(-?[\d,]*\.?\d+)\s*([^\s=]*)/);
+  if (!match) return { value: null, unit: '' };
+  return { value: parseIndianNumber(match[1]).value, unit: match[2] };
+}
+
+// Rates look like "450.00/Nos"
+function parseTallyRate(value: string): number | null {
+  return parseIndianNumber(value.split('/')[0]).value;
+}
+
+// Tally dates are YYYYMMDD
+function parseTallyDate(value: string): string {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : value;
+}
+
+function isSalesVoucher(voucherType: string): boolean {
+  return SALES_VOUCHER.test(voucherType) && !NON_SALES_VOUCHER.test(voucherType);
+}
+
+function isReturnVoucher(voucherType: string): boolean {
+  return RETURN_VOUCHER.test(voucherType);
+}
+
+// Credit notes carry the return reason in their narration
+function vouchersToRows(root: XmlNode, accepts: (voucherType: string) => boolean, withReason = false): Record<string, unknown>[] {
+  return findAll(root, 'VOUCHER').flatMap(voucher => {
+    const voucherType = text(voucher.VOUCHERTYPENAME) || text(voucher['@_VCHTYPE']);
+    if (!accepts(voucherType)) return [];
+
+    const date = parseTallyDate(text(voucher.DATE));
+    const party = text(voucher.PARTYLEDGERNAME) || text(voucher.PARTYNAME);
+    const voucherNo = text(voucher.VOUCHERNUMBER);
+    const entries = [...list(voucher['ALLINVENTORYENTRIES.LIST']), ...list(voucher['INVENTORYENTRIES.LIST'])];
+
+    // Accounting-only invoices have no stock items to attribute revenue to
+    return entries.map(entry => {
+      const quantity = parseTallyQuantity(text(entry.BILLEDQTY) || text(entry.ACTUALQTY));
+      const amount = parseIndianNumber(text(entry.AMOUNT)).value;
+      const godown = text(list(entry['BATCHALLOCATIONS.LIST'])[0]?.GODOWNNAME);
+
+      return {
+        Date: date,
+        Product: text(entry.STOCKITEMNAME),
+        Quantity: Math.abs(quantity.value),
+        // Sales credits come through negative in some Tally versions
+        Amount: amount === null ? '' : Math.abs(amount),
+        ...(withReason ? { Reason: text(voucher.NARRATION) } : {}),
+        Location: godown,
+        Voucher_No: voucherNo,
+        Party: party
+      };
+    });
+  });
+}
+
+function stockItemsToInventory(root: XmlNode): Record<string, unknown>[] {
+  return findAll(root, 'STOCKITEM').flatMap(item => {
+    const name = text(item['@_NAME']) || text(item.NAME) || text(findAll(item, 'NAME')[0]);
+    const base = {
+      Product: name,
+      Category: text(item.PARENT),
+      Unit: text(item.BASEUNITS)
+    };
+
+    // Masters exported with opening stock list one allocation per godown
+    const allocations = list(item['BATCHALLOCATIONS.LIST']).filter(batch => text(batch.GODOWNNAME));
+    if (allocations.length > 0) {
+      return allocations.map(batch => {
+        const quantity = parseTallyQuantity(text(batch.CLOSINGBALANCE) || text(batch.OPENINGBALANCE));
+        return {
+          ...base,
+          Unit: base.Unit || quantity.unit,
+          Stock: quantity.value ?? '',
+          Price: parseTallyRate(text(batch.CLOSINGRATE) || text(batch.OPENINGRATE)) ?? '',
+          Godown: text(batch.GODOWNNAME)
+        };
+      });
+    }
+
+    const quantity = parseTallyQuantity(text(item.CLOSINGBALANCE) || text(item.OPENINGBALANCE));
+    return [{
+      ...base,
+      Unit: base.Unit || quantity.unit,
+      Stock: quantity.value ?? '',
+      Price: parseTallyRate(text(item.CLOSINGRATE) || text(item.OPENINGRATE)) ?? '',
+      Godown: ''
+    }];
+  });
+}
+
+// The Stock Summary report export pairs each DSPACCNAME with the DSPSTKINFO that follows it
+function stockSummaryReportToInventory(root: XmlNode): Record<string, unknown>[] {
+  const envelope = (root.ENVELOPE || root) as XmlNode;
+  const names = list(envelope.DSPACCNAME);
+  const info = list(envelope.DSPSTKINFO);
+
+  return names.map((name, index) => {
+    const closing = (info[index]?.DSPSTKCL || {}) as XmlNode;
+    const quantity = parseTallyQuantity(text(closing.DSPCLQTY));
+    return {
+      Product: text(name.DSPDISPNAME),
+      Category: '',
+      Stock: quantity.value ?? '',
+      Price: parseTallyRate(text(closing.DSPCLRATE)) ?? '',
+      Unit: quantity.unit,
+      Godown: ''
+    };
+  }).filter(row => row.Product);
+}
+
+export function parseTallyXml(xml: string, type: DatasetType): RawTable {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    parseTagValue: false,
+    isArray: (name) => REPEATED_TAGS.includes(name)
+  });
+  const root = parser.parse(xml) as XmlNode;
+
+  if (type === 'sales') {
+    return { headers: SALES_HEADERS, rows: vouchersToRows(root, isSalesVoucher) };
+  }
+  if (type === 'returns') {
+    return { headers: RETURN_HEADERS, rows: vouchersToRows(root, isReturnVoucher, true) };
+  }
+  if (type === 'inventory') {
+    const rows = findAll(root, 'STOCKITEM').length > 0 ? stockItemsToInventory(root) : stockSummaryReportToInventory(root);
+    return { headers: INVENTORY_HEADERS, rows };
+  }
+  throw new Error('Tally exports can be used for sales, returns or inventory data');
+}
+
+function cellText(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+interface StockLine {
+  name: string;
+  indent: number;
+  quantity: number | null;
+  value: number | null;
+  row: unknown[];
+}
+
+const isClose = (a: number, b: number) => Math.abs(a - b) <= 0.5;
+
+/**
+ * Stock groups and their subtotals sit in the same column as the items, so
+ * keeping them would count grouped stock twice. Indented exports show the
+ * nesting directly; flat ones give a group away by its closing quantity and
+ * value equalling the sum of the rows after it. Items are returned with the
+ * group they sit under as their category.
+ */
+function splitStockGroups(lines: StockLine[]): Array<{ line: StockLine; group: string }> {
+  const items: Array<{ line: StockLine; group: string }> = [];
+
+  if (new Set(lines.map(line => line.indent)).size > 1) {
+    const groups: StockLine[] = [];
+    lines.forEach((line, index) => {
+      while (groups.length > 0 && groups[groups.length - 1].indent >= line.indent) groups.pop();
+      const next = lines[index + 1];
+      if (next && next.indent > line.indent) {
+        groups.push(line);
+      } else {
+        items.push({ line, group: groups[groups.length - 1]?.name ?? '' });
+      }
+    });
+    return items;
+  }
+
+  // Two items with the same quantity and value look like a group of one, so a group needs two children here
+  let group = '';
+  let groupEnd = -1;
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    if (index > groupEnd && line.value !== null && line.value > 0) {
+      let value = 0;
+      let quantity = 0;
+      let end = index;
+      while (end + 1 < lines.length && value < line.value - 0.5) {
+        end++;
+        value += lines[end].value ?? 0;
+        quantity += lines[end].quantity ?? 0;
+      }
+      if (end - index >= 2 && isClose(value, line.value) && (line.quantity === null || isClose(quantity, line.quantity))) {
+        group = line.name;
+        groupEnd = end;
+        continue;
+      }
+    }
+    items.push({ line, group: index <= groupEnd ? group : '' });
+  }
+  return items;
+}
+
+// Excel exports of Tally reports open with company and period title rows above the header
+export function isTallyReportMatrix(matrix: unknown[][]): boolean {
+  const title = matrix.slice(0, 8).flat().map(cellText).join(' ');
+  const hasParticulars = matrix.slice(0, 15).some(row => row.some(cell => /^particulars$/i.test(cellText(cell))));
+  return hasParticulars && /stock summary|day ?book|sales register/i.test(title);
+}
+
+// Stock summaries hold inventory; day books and sales registers hold sales
+export function getTallyReportType(matrix: unknown[][]): DatasetType | null {
+  if (!isTallyReportMatrix(matrix)) return null;
+  const title = matrix.slice(0, 8).flat().map(cellText).join(' ');
+  return /stock summary/i.test(title) ? 'inventory' : 'sales';
+}
+
+export function parseTallyMatrix(matrix: unknown[][], type: DatasetType): RawTable {
+  const headerIndex = matrix.findIndex(row => row.some(cell => /^particulars$/i.test(cellText(cell))));
+  if (headerIndex < 0) {
+    throw new Error('Could not find the Particulars header in this Tally export');
+  }
+
+  // Column groups like "Closing Balance" put Quantity/Rate/Value on the row below
+  const header = matrix[headerIndex].map(cellText);
+  const subHeader = (matrix[headerIndex + 1] || []).map(cellText);
+  const hasSubHeader = subHeader.some(label => /quantity|rate|value/i.test(label));
+  const labels = header.map((label, index) => (hasSubHeader && subHeader[index]) || label);
+  const column = (pattern: RegExp) => labels.findIndex(label => pattern.test(label));
+
+  const body = matrix.slice(headerIndex + (hasSubHeader ? 2 : 1))
+    .filter(row => {
+      const particulars = cellText(row[column(/^particulars$/i)]);
+      return particulars && !/^(grand )?total$/i.test(particulars);
+    });
+
+  const quantityColumn = column(/quantity|qty/i);
+  const rateColumn = column(/rate/i);
+
+  if (type === 'inventory') {
+    const particularsColumn = column(/^particulars$/i);
+    const valueColumn = column(/value/i);
+    const lines = body.map(row => {
+      const particulars = String(row[particularsColumn]);
+      return {
+        name: particulars.trim(),
+        indent: particulars.length - particulars.trimStart().length,
+        quantity: parseTallyQuantity(cellText(row[quantityColumn])).value,
+        value: valueColumn < 0 ? null : parseIndianNumber(cellText(row[valueColumn])).value,
+        row
+      };
+    });
+
+    const rows = splitStockGroups(lines).map(({ line: { name, row }, group }) => {
+      const quantity = parseTallyQuantity(cellText(row[quantityColumn]));
+      return {
+        Product: name,
+        Category: group,
+        Stock: quantity.value ?? '',
+        Price: parseTallyRate(cellText(row[rateColumn])) ?? '',
+        Unit: quantity.unit,
+        Godown: ''
+      };
+    });
+    return { headers: INVENTORY_HEADERS, rows };
+  }
+
+  if (type === 'sales') {
+    const dateColumn = column(/^date$/i);
+    const typeColumn = column(/^v(ou)?ch(er)?\.? ?type$/i);
+    const numberColumn = column(/^v(ou)?ch(er)?\.? ?no\.?$/i);
+    const amountColumn = column(/^(value|credit|gross total|amount)/i);
+    if (dateColumn < 0 || amountColumn < 0) {
+      throw new Error('This Tally export has no Date or Value column to read sales from');
+    }
+
+    // In detailed view a dated row opens each voucher (Particulars is the party)
+    // and the undated rows under it with a quantity are its stock items
+    const rows: Record<string, unknown>[] = [];
+    let voucher: { date: string; number: string; party: string; sales: boolean } | null = null;
+    body.forEach(row => {
+      const particulars = cellText(row[column(/^particulars$/i)]);
+      if (cellText(row[dateColumn])) {
+        voucher = {
+          date: normalizeDate(row[dateColumn]) ?? cellText(row[dateColumn]),
+          number: cellText(row[numberColumn]),
+          party: particulars,
+          sales: typeColumn < 0 || isSalesVoucher(cellText(row[typeColumn]))
+        };
+        return;
+      }
+      if (!voucher?.sales) return;
+
+      // Ledger lines (sales account, CGST, round off) carry a value but no quantity
+      const quantity = parseTallyQuantity(cellText(row[quantityColumn]));
+      if (quantity.value === null) return;
+
+      const amount = parseIndianNumber(cellText(row[amountColumn])).value;
+      rows.push({
+        Date: voucher.date,
+        Product: particulars,
+        Quantity: quantity.value === null ? '' : Math.abs(quantity.value),
+        Amount: amount === null ? '' : Math.abs(amount),
+        Location: '',
+        Voucher_No: voucher.number,
+        Party: voucher.party
+      });
+    });
+
+    if (rows.length === 0 && body.length > 0) {
+      throw new Error('This Tally export lists vouchers without stock items; export it in detailed view');
+    }
+    return { headers: SALES_HEADERS, rows };
+  }
+
+  throw new Error('Tally reports can be used for sales or inventory data; export credit notes as XML for returns');
+}
@@ -0,0 +1,234 @@
+import { type SalesData } from './data-processing';
+import { getDateKey, getMonthKey } from './date-parsing';
+import { isReturnSale } from './returns';
+
+export type Granularity = 'day' | 'week' | 'month';
+
+export interface SeriesPoint {
+  // YYYY-MM-DD for days, the Monday for weeks, YYYY-MM for months
+  period: string;
+  revenue: number;
+  orders: number;
+  quantity: number;
+  // Change in revenue from the point before; null for the first point or after a period with no sales
+  revenueGrowth: number | null;
+}
+
+export interface PeriodTotals {
+  revenue: number;
+  orders: number;
+  quantity: number;
+}
+
+/**
+ * The latest period so far against the same stretch of the one before, so a
+ * month that is only ten days old is compared with the first ten days of the
+ * previous month rather than all of it.
+ */
+export interface PeriodComparison {
+  period: string;
+  previousPeriod: string;
+  // Last day with sales; the current period runs to here
+  throughDate: string;
+  partial: boolean;
+  current: PeriodTotals;
+  previous: PeriodTotals;
+  // Null when the previous stretch had no sales or falls before the data starts
+  revenueGrowth: number | null;
+  ordersGrowth: number | null;
+  quantityGrowth: number | null;
+}
+
+export interface GroupTrend {
+  name: string;
+  monthly: SeriesPoint[];
+  month: PeriodComparison | null;
+}
+
+export interface SalesTrends {
+  firstDate: string;
+  lastDate: string;
+  daily: SeriesPoint[];
+  weekly: SeriesPoint[];
+  monthly: SeriesPoint[];
+  growth: Record<Granularity, PeriodComparison | null>;
+  // Largest by revenue; dimensions the sales file has no column for are left out
+  byProduct: GroupTrend[];
+  byCategory?: GroupTrend[];
+  byLocation?: GroupTrend[];
+}
+
+// Recent history only, to keep the AI context small; aggregateSales gives the full series
+const SERIES_LIMITS: Record<Granularity, number> = { day: 60, week: 26, month: 24 };
+const GROUP_MONTHS = 12;
+const TOP_GROUPS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DAY_KEY = /^\d{4}-\d{2}-\d{2}/;
+
+const toTime = (day: string) => Date.parse(`${day}T00:00:00Z`);
+const toDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+const addDays = (day: string, days: number) => toDay(toTime(day) + days * DAY_MS);
+
+// Weeks start on Monday, as in most Indian retail reporting
+function getWeekStart(day: string): string {
+  const weekday = (new Date(toTime(day)).getUTCDay() + 6) % 7;
+  return addDays(day, -weekday);
+}
+
+export function getPeriodKey(date: string, granularity: Granularity): string {
+  const day = getDateKey(date);
+  if (granularity === 'day') return day;
+  if (granularity === 'week') return getWeekStart(day);
+  return getMonthKey(day);
+}
+
+// First day of the period a key names
+function getPeriodStart(period: string, granularity: Granularity): string {
+  return granularity === 'month' ? `${period}-01` : period;
+}
+
+export function getNextPeriod(period: string, granularity: Granularity): string {
+  if (granularity === 'day') return addDays(period, 1);
+  if (granularity === 'week') return addDays(period, 7);
+  const [year, month] = period.split('-').map(Number);
+  return month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, '0')}`;
+}
+
+export function getPreviousPeriod(period: string, granularity: Granularity): string {
+  if (granularity === 'day') return addDays(period, -1);
+  if (granularity === 'week') return addDays(period, -7);
+  const [year, month] = period.split('-').map(Number);
+  return month === 1 ? `${year - 1}-12` : `${year}-${String(month - 1).padStart(2, '0')}`;
+}
+
+const growth = (current: number, previous: number) => previous !== 0 ? (current - previous) / previous : null;
+
+// Sales with a usable date, without the credit lines that returns.ts treats as returns
+function getDatedOrders(salesData: SalesData[]): SalesData[] {
+  return salesData.filter(sale => !isReturnSale(sale) && typeof sale.Date === 'string' && DAY_KEY.test(sale.Date));
+}
+
+/**
+ * Revenue, orders and quantity per day, week or month. Periods without sales
+ * between the first and last sale are included as zeros, so the series can be
+ * read as a continuous timeline. until ends the series at that period, padding
+ * with zeros when the sales stop earlier.
+ */
+export function aggregateSales(salesData: SalesData[], granularity: Granularity, until?: string): SeriesPoint[] {
+  const totals = new Map<string, PeriodTotals>();
+  getDatedOrders(salesData).forEach(sale => {
+    const period = getPeriodKey(sale.Date, granularity);
+    const entry = totals.get(period) || { revenue: 0, orders: 0, quantity: 0 };
+    entry.revenue += sale.Amount || 0;
+    entry.orders += 1;
+    entry.quantity += sale.Quantity || 0;
+    totals.set(period, entry);
+  });
+  if (totals.size === 0) return [];
+
+  const periods = Array.from(totals.keys()).sort();
+  const last = until ?? periods[periods.length - 1];
+  const points: SeriesPoint[] = [];
+  for (let period = periods[0]; period <= last; period = getNextPeriod(period, granularity)) {
+    const entry = totals.get(period) || { revenue: 0, orders: 0, quantity: 0 };
+    const previous = points[points.length - 1];
+    points.push({ period, ...entry, revenueGrowth: previous ? growth(entry.revenue, previous.revenue) : null });
+  }
+  return points;
+}
+
+function sumBetween(orders: SalesData[], from: string, to: string): PeriodTotals {
+  return orders.reduce((totals, sale) => {
+    const day = getDateKey(sale.Date);
+    if (day < from || day > to) return totals;
+    return { revenue: totals.revenue + (sale.Amount || 0), orders: totals.orders + 1, quantity: totals.quantity + (sale.Quantity || 0) };
+  }, { revenue: 0, orders: 0, quantity: 0 });
+}
+
+// asOf lines a product or category up with the whole shop, so one that stopped selling shows as a fall
+export function comparePeriods(salesData: SalesData[], granularity: Granularity, asOf?: string): PeriodComparison | null {
+  const orders = getDatedOrders(salesData);
+  if (orders.length === 0) return null;
+
+  const days = orders.map(sale => getDateKey(sale.Date)).sort();
+  const firstDate = days[0];
+  const throughDate = asOf ?? days[days.length - 1];
+  const period = getPeriodKey(throughDate, granularity);
+  const previousPeriod = getPreviousPeriod(period, granularity);
+
+  const start = getPeriodStart(period, granularity);
+  const elapsed = Math.round((toTime(throughDate) - toTime(start)) / DAY_MS);
+  const previousStart = getPeriodStart(previousPeriod, granularity);
+  // The 31st has no match in a 30-day month, so the previous stretch stops at its month end
+  const previousEnd = [addDays(previousStart, elapsed), addDays(start, -1)].sort()[0];
+  const periodEnd = addDays(getPeriodStart(getNextPeriod(period, granularity), granularity), -1);
+
+  const current = sumBetween(orders, start, throughDate);
+  const previous = sumBetween(orders, previousStart, previousEnd);
+  const covered = previousStart >= firstDate;
+  return {
+    period,
+    previousPeriod,
+    throughDate,
+    partial: throughDate < periodEnd,
+    current,
+    previous,
+    revenueGrowth: covered ? growth(current.revenue, previous.revenue) : null,
+    ordersGrowth: covered ? growth(current.orders, previous.orders) : null,
+    quantityGrowth: covered ? growth(current.quantity, previous.quantity) : null
+  };
+}
+
+function trendsBy(orders: SalesData[], lastDate: string, getName: (sale: SalesData) => string): GroupTrend[] {
+  const groups = new Map<string, { name: string; revenue: number; rows: SalesData[] }>();
+  orders.forEach(sale => {
+    const name = getName(sale);
+    if (!name) return;
+    const group = groups.get(name) || { name, revenue: 0, rows: [] };
+    group.revenue += sale.Amount || 0;
+    group.rows.push(sale);
+    groups.set(name, group);
+  });
+
+  return Array.from(groups.values())
+    .sort((a, b) => b.revenue - a.revenue)
+    .slice(0, TOP_GROUPS)
+    .map(group => ({
+      name: group.name,
+      monthly: aggregateSales(group.rows, 'month').slice(-GROUP_MONTHS),
+      month: comparePeriods(group.rows, 'month', lastDate)
+    }));
+}
+
+const text = (value: unknown) => String(value ?? '').trim();
+
+/**
+ * Daily, weekly and monthly sales with period-over-period growth, overall and
+ * for the biggest products, categories and locations.
+ */
+export function summarizeTrends(salesData: SalesData[]): SalesTrends | undefined {
+  const orders = getDatedOrders(salesData);
+  if (orders.length === 0) return undefined;
+
+  const days = orders.map(sale => getDateKey(sale.Date)).sort();
+  const lastDate = days[days.length - 1];
+  const hasCategories = orders.some(sale => text(sale.Category) !== '');
+  const hasLocations = orders.some(sale => text(sale.Location) !== '');
+  return {
+    firstDate: days[0],
+    lastDate,
+    daily: aggregateSales(orders, 'day').slice(-SERIES_LIMITS.day),
+    weekly: aggregateSales(orders, 'week').slice(-SERIES_LIMITS.week),
+    monthly: aggregateSales(orders, 'month').slice(-SERIES_LIMITS.month),
+    growth: {
+      day: comparePeriods(orders, 'day'),
+      week: comparePeriods(orders, 'week'),
+      month: comparePeriods(orders, 'month')
+    },
+    // Grouped by product name, as the product master has already made names canonical
+    byProduct: trendsBy(orders, lastDate, sale => text(sale.Product)),
+    ...(hasCategories ? { byCategory: trendsBy(orders, lastDate, sale => text(sale.Category) || 'Uncategorized') } : {}),
+    ...(hasLocations ? { byLocation: trendsBy(orders, lastDate, sale => text(sale.Location)) } : {})
+  };
+}
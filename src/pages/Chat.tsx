@@ -1,20 +1,17 @@
 import React from 'react';
 import ChatInterface from '@/components/ChatInterface';
-import { type BusinessSummary, type SalesData, type InventoryData, type ReviewData } from '@/lib/data-processing';
+import { type BusinessData, type BusinessSummary } from '@/lib/data-processing';
 
 interface ChatProps {
   businessSummary: BusinessSummary;
-  businessData: {
-    sales: SalesData[];
-    inventory: InventoryData[];
-    reviews: ReviewData[];
-  };
+  businessData: BusinessData;
+  onDataChange: (data: BusinessData) => void;
 }
 
-const Chat: React.FC<ChatProps> = ({ businessSummary, businessData }) => {
+const Chat: React.FC<ChatProps> = ({ businessSummary, businessData, onDataChange }) => {
   return (
     <div className="h-screen">
-      <ChatInterface businessSummary={businessSummary} businessData={businessData} />
+      <ChatInterface businessSummary={businessSummary} businessData={businessData} onDataChange={onDataChange} />
     </div>
   );
 };
@@ -5,12 +5,12 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import DataUpload from '@/components/DataUpload';
 import DemoLoader from '@/components/DemoLoader';
-import { type BusinessSummary, type SalesData, type InventoryData, type ReviewData } from '@/lib/data-processing';
+import { type BusinessData, type BusinessSummary } from '@/lib/data-processing';
 import heroImage from '@/assets/hero-business.jpg';
 import aiImage from '@/assets/ai-brain.jpg';
 
 interface LandingProps {
-  onDataComplete: (summary: BusinessSummary, data: { sales: SalesData[]; inventory: InventoryData[]; reviews: ReviewData[] }) => void;
+  onDataComplete: (summary: BusinessSummary, data: BusinessData) => void;
 }
 
 const Landing: React.FC<LandingProps> = ({ onDataComplete }) => {
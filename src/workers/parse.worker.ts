@@ -0,0 +1,269 @@
+import Papa from 'papaparse';
+import type { WorkBook } from 'xlsx';
+import { type DatasetType, type RawTable } from '@/lib/data-processing';
+import { applyColumnMapping } from '@/lib/column-mapping';
+import { SNIFF_BYTES, sniffCsv, DEFAULT_CSV_FORMAT, type CsvFormat } from '@/lib/csv-sniffing';
+import { classifyHeaders, extractZipFiles, resolveClassification, scoreHeaders, type FileClassification } from '@/lib/dataset-classification';
+import { detectDateOrder } from '@/lib/date-parsing';
+import { isExcelFile, listWorkbookSheets, readExcelMatrix, readExcelSheet, readWorkbook } from '@/lib/excel-parsing';
+import { isGstr1Return, isJsonFile, parseGstr1 } from '@/lib/gstr1-import';
+import { convertMarketplaceReport, detectMarketplace, type MarketplaceMatch } from '@/lib/marketplace-presets';
+import { decodeXmlBuffer, getTallyReportType, isTallyReportMatrix, isTallyXml, isXmlFile, parseTallyMatrix, parseTallyXml } from '@/lib/tally-import';
+import { validateRows } from '@/lib/schema-validation';
+import type { CompactReport, OpenResult, ParseOptions, ParseProgress, TablePreview, WorkerRequest, WorkerResponse } from '@/lib/parse-worker-client';
+
+const CHUNK_SIZE = 1024 * 1024;
+const PREVIEW_ROWS = 20;
+
+// The app compiles against the DOM lib, so describe the worker scope we actually use
+const scope = self as unknown as {
+  postMessage(message: WorkerResponse): void;
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+let options: ParseOptions = { mode: 'all', rowLimit: 0 };
+let datasetType: DatasetType = 'sales';
+let workbook: WorkBook | null = null;
+let table: RawTable | null = null;
+// Spreadsheet row of each table row; sampling reorders and skips rows
+let rowNumbers: number[] = [];
+let sourceRowCount = 0;
+let truncated = false;
+let marketplace: MarketplaceMatch | undefined;
+
+const reportProgress = (progress: ParseProgress) => scope.postMessage({ kind: 'progress', progress });
+
+// Marketplace order reports become sales columns here, dropping cancelled and returned orders
+function applyMarketplacePreset() {
+  marketplace = undefined;
+  const channel = datasetType === 'sales' ? detectMarketplace(table!.headers) : null;
+  if (!channel) return;
+
+  const converted = convertMarketplaceReport(table!, channel);
+  rowNumbers = converted.kept.map(index => rowNumbers[index]);
+  table = converted.table;
+  marketplace = converted.match;
+}
+
+function toPreview(): TablePreview {
+  return {
+    headers: table!.headers,
+    rows: table!.rows.slice(0, PREVIEW_ROWS),
+    rowCount: table!.rows.length,
+    sourceRowCount,
+    truncated,
+    marketplace
+  };
+}
+
+function streamCsv(file: File, format: CsvFormat): Promise<void> {
+  const limit = options.mode === 'all' ? Infinity : options.rowLimit;
+  const sampled: Array<{ row: number; record: Record<string, unknown> }> = [];
+  let headers: string[] = [];
+  let seen = 0;
+
+  return new Promise((resolve, reject) => {
+    Papa.parse<Record<string, unknown>>(file, {
+      header: true,
+      encoding: format.encoding,
+      delimiter: format.delimiter,
+      // Report titles above the header are dropped before Papa sees the first line
+      skipFirstNLines: format.headerRow,
+      skipEmptyLines: true,
+      transformHeader: (header) => header.trim(),
+      chunkSize: CHUNK_SIZE,
+      chunk: (results, parser) => {
+        if (headers.length === 0) headers = (results.meta.fields || []).filter(Boolean);
+
+        for (const record of results.data) {
+          seen++;
+          const row = seen + 1 + format.headerRow;
+          if (sampled.length < limit) {
+            sampled.push({ row, record });
+          } else if (options.mode === 'first') {
+            truncated = true;
+            parser.abort();
+            break;
+          } else {
+            // Reservoir sampling keeps every row equally likely without holding the whole file
+            truncated = true;
+            const slot = Math.floor(Math.random() * seen);
+            if (slot < limit) sampled[slot] = { row, record };
+          }
+        }
+
+        // The cursor counts characters parsed so far, which matches bytes for the ASCII most exports are
+        reportProgress({ loaded: Math.min(file.size, results.meta.cursor), total: file.size, rows: seen });
+      },
+      complete: () => {
+        sampled.sort((a, b) => a.row - b.row);
+        table = { headers, rows: sampled.map(entry => entry.record) };
+        rowNumbers = sampled.map(entry => entry.row);
+        sourceRowCount = seen;
+        reportProgress({ loaded: file.size, total: file.size, rows: seen });
+        resolve();
+      },
+      error: (error) => reject(error)
+    });
+  });
+}
+
+function readSheetTable(sheet: string): RawTable {
+  // Tally report exports put titles above the real header, so read them as a grid first
+  const matrix = readExcelMatrix(workbook!, sheet);
+  if (isTallyReportMatrix(matrix)) return parseTallyMatrix(matrix, datasetType);
+  return readExcelSheet(workbook!, sheet);
+}
+
+function applyRowLimit(full: RawTable): TablePreview {
+  const limit = options.mode === 'all' ? Infinity : options.rowLimit;
+  let indices = full.rows.map((_, index) => index);
+  sourceRowCount = full.rows.length;
+  truncated = false;
+
+  if (indices.length > limit) {
+    truncated = true;
+    if (options.mode === 'sample') {
+      // Partial Fisher-Yates shuffle, then restore file order
+      for (let i = 0; i < limit; i++) {
+        const j = i + Math.floor(Math.random() * (indices.length - i));
+        [indices[i], indices[j]] = [indices[j], indices[i]];
+      }
+    }
+    indices = indices.slice(0, limit).sort((a, b) => a - b);
+  }
+
+  table = { headers: full.headers, rows: indices.map(index => full.rows[index]) };
+  rowNumbers = indices.map(index => index + 2);
+  applyMarketplacePreset();
+  return toPreview();
+}
+
+async function loadXml(file: File): Promise<TablePreview> {
+  const xml = decodeXmlBuffer(await file.arrayBuffer());
+  if (!isTallyXml(xml)) {
+    throw new Error('Only Tally XML exports are supported');
+  }
+  reportProgress({ loaded: file.size, total: file.size, rows: 0 });
+  return applyRowLimit(parseTallyXml(xml, datasetType));
+}
+
+async function loadJson(file: File): Promise<TablePreview> {
+  const data: unknown = JSON.parse(await file.text());
+  if (datasetType !== 'sales' || !isGstr1Return(data)) {
+    throw new Error('Only GSTR-1 returns are supported as JSON, and only for sales data');
+  }
+  reportProgress({ loaded: file.size, total: file.size, rows: 0 });
+  return applyRowLimit(parseGstr1(data));
+}
+
+// Reads only as much of each file as it takes to tell the datasets apart
+async function classifyFile(file: File): Promise<FileClassification> {
+  if (isJsonFile(file)) {
+    let data: unknown = null;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      // Not JSON after all; the user decides
+    }
+    return resolveClassification(file, isGstr1Return(data) ? ['sales'] : []);
+  }
+
+  if (isXmlFile(file)) {
+    const xml = decodeXmlBuffer(await file.arrayBuffer());
+    const candidates: DatasetType[] = [];
+    if (isTallyXml(xml) && /<VOUCHER[\s>]/i.test(xml)) candidates.push('sales');
+    if (isTallyXml(xml) && /<(STOCKITEM|DSPACCNAME)[\s>]/i.test(xml)) candidates.push('inventory');
+    return resolveClassification(file, candidates);
+  }
+
+  if (isExcelFile(file)) {
+    const book = await readWorkbook(file);
+    const candidates = new Set<DatasetType>();
+    const scores: Record<DatasetType, number> = { sales: 0, inventory: 0, reviews: 0, returns: 0, customers: 0 };
+    book.SheetNames.forEach(sheet => {
+      const tallyType = getTallyReportType(readExcelMatrix(book, sheet));
+      if (tallyType) candidates.add(tallyType);
+    });
+    listWorkbookSheets(book).filter(sheet => sheet.rowCount > 0).forEach(sheet => {
+      Object.entries(scoreHeaders(sheet.headers)).forEach(([type, score]) => {
+        scores[type as DatasetType] = Math.max(scores[type as DatasetType], score);
+        if (score === 1) candidates.add(type as DatasetType);
+      });
+    });
+    return resolveClassification(file, Array.from(candidates), scores);
+  }
+
+  const { format, lines } = sniffCsv(new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer()));
+  const headers = lines[format.headerRow] || [];
+  if (detectMarketplace(headers)) return resolveClassification(file, ['sales']);
+  return classifyHeaders(file, headers);
+}
+
+async function handle(request: WorkerRequest): Promise<unknown> {
+  switch (request.kind) {
+    case 'unzip':
+      return extractZipFiles(new Uint8Array(await request.file.arrayBuffer()));
+    case 'classify':
+      return classifyFile(request.file);
+    case 'sniff': {
+      datasetType = request.datasetType;
+      const bytes = new Uint8Array(await request.file.slice(0, SNIFF_BYTES).arrayBuffer());
+      return sniffCsv(bytes, datasetType, request.format);
+    }
+    case 'open': {
+      options = request.options;
+      datasetType = request.datasetType;
+      if (isXmlFile(request.file)) {
+        const result: OpenResult = { preview: await loadXml(request.file) };
+        return result;
+      }
+      if (isJsonFile(request.file)) {
+        const result: OpenResult = { preview: await loadJson(request.file) };
+        return result;
+      }
+      if (isExcelFile(request.file)) {
+        workbook = await readWorkbook(request.file);
+        reportProgress({ loaded: request.file.size, total: request.file.size, rows: 0 });
+        const result: OpenResult = { sheets: listWorkbookSheets(workbook) };
+        return result;
+      }
+      await streamCsv(request.file, request.csvFormat || DEFAULT_CSV_FORMAT);
+      applyMarketplacePreset();
+      const result: OpenResult = { preview: toPreview() };
+      return result;
+    }
+    case 'select-sheet':
+      return applyRowLimit(readSheetTable(request.sheet));
+    case 'detect-date-order':
+      return detectDateOrder(table!.rows.map(row => row[request.header]));
+    case 'finalize': {
+      const data = applyColumnMapping<Record<string, unknown>>(table!, request.mapping, request.dateOrders);
+      if (request.source) {
+        data.forEach(row => {
+          if (!row.Source) row.Source = request.source;
+        });
+      }
+      const report = validateRows<Record<string, unknown>>(data, request.datasetType, rowNumbers);
+
+      const columnSet = new Set<string>();
+      report.validRows.forEach(row => Object.keys(row).forEach(column => columnSet.add(column)));
+      const columns = Array.from(columnSet);
+      const compact: CompactReport = {
+        columns,
+        validRows: report.validRows.map(row => columns.map(column => row[column])),
+        rejectedRows: report.rejectedRows,
+        missingColumns: report.missingColumns,
+        totalRows: report.totalRows
+      };
+      return compact;
+    }
+  }
+}
+
+scope.onmessage = (event) => {
+  const request = event.data;
+  handle(request)
+    .then(result => scope.postMessage({ id: request.id, kind: 'result', result }))
+    .catch(error => scope.postMessage({ id: request.id, kind: 'error', message: error instanceof Error ? error.message : String(error) }));
+};